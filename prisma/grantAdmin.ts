@@ -0,0 +1,24 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const email = process.argv[2];
+  if (!email) {
+    console.error("Usage: npm run grant-admin -- <email>");
+    process.exit(1);
+  }
+
+  await prisma.user.update({
+    where: { email },
+    data: { role: "ADMIN" },
+  });
+
+  console.log(`Granted admin role to ${email}.`);
+  await prisma.$disconnect();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -11,6 +11,7 @@ async function main() {
       hash: faker.datatype.uuid(), 
       lat: parseFloat(faker.address.latitude()), 
       lon: parseFloat(faker.address.longitude()), 
+      emailVerifiedAt: new Date(),
     };
 
     await prisma.user.create({
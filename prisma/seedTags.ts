@@ -0,0 +1,80 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// The interest catalog, safe to run again after adding entries
+const catalog = [
+  "Hiking",
+  "Running",
+  "Cycling",
+  "Climbing",
+  "Yoga",
+  "Gym",
+  "Swimming",
+  "Football",
+  "Basketball",
+  "Tennis",
+  "Cooking",
+  "Baking",
+  "Coffee",
+  "Wine",
+  "Craft Beer",
+  "Vegan",
+  "Travel",
+  "Camping",
+  "Photography",
+  "Painting",
+  "Drawing",
+  "Writing",
+  "Reading",
+  "Poetry",
+  "Music",
+  "Concerts",
+  "Guitar",
+  "Piano",
+  "Singing",
+  "Dancing",
+  "Movies",
+  "Series",
+  "Anime",
+  "Theatre",
+  "Museums",
+  "Board Games",
+  "Video Games",
+  "Chess",
+  "Gardening",
+  "Dogs",
+  "Cats",
+  "Fashion",
+  "Technology",
+  "Science",
+  "History",
+  "Languages",
+  "Volunteering",
+  "Meditation",
+];
+
+const toSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+async function main() {
+  for (const name of catalog) {
+    const slug = toSlug(name);
+    await prisma.tag.upsert({
+      where: { slug },
+      create: { slug, name },
+      update: { name },
+    });
+  }
+
+  console.log(`Seeded ${catalog.length} interest tags successfully.`);
+  await prisma.$disconnect();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
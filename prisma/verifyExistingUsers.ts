@@ -0,0 +1,21 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// Accounts created before email verification existed were never sent a
+// link, so they are the unverified users without a verificationSentAt.
+// Run once after deploying email verification.
+async function main() {
+  const result = await prisma.user.updateMany({
+    where: { emailVerifiedAt: null, verificationSentAt: null },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  console.log(`Marked ${result.count} existing users as verified.`);
+  await prisma.$disconnect();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,7 +1,10 @@
 import dbContext from "./dbContext";
 import logger from "../cors/logger";
+import { quotaOwner, withinQuota } from "./quotas";
 
-export const createDislike = async (userId: string, dislikedById: string) => {
+// `limitReached` is set when the disliker used up today's dislikes
+export const createDislike = async (userId: string, disliker: quotaOwner) => {
+  const dislikedById = disliker?.id;
   try {
     if (!userId || !dislikedById) {
       return {
@@ -10,30 +13,45 @@ export const createDislike = async (userId: string, dislikedById: string) => {
       };
     }
 
-    const existingDislike = await dbContext.dislike.findFirst({
-      where: {
-        userId,
-        dislikedById,
-      },
+    const result = await withinQuota(disliker, "dislikes", async (tx) => {
+      const existingDislike = await tx.dislike.findFirst({
+        where: {
+          userId,
+          dislikedById,
+        },
+      });
+
+      // With recycleDislikes an old dislike lets the user back into the
+      // feed, disliking them again restarts the clock instead of failing
+      if (existingDislike) {
+        return tx.dislike.update({
+          where: {
+            id: existingDislike.id,
+          },
+          data: {
+            createdAt: new Date(),
+          },
+        });
+      }
+
+      return tx.dislike.create({
+        data: {
+          userId,
+          dislikedById,
+        },
+      });
     });
 
-    if (existingDislike) {
+    if (!result.allowed) {
       return {
         success: false,
-        message: "This user has already disliked the target user",
+        limitReached: { limit: result.limit, resetsAt: result.resetsAt },
       };
     }
 
-    const newDislike = await dbContext.dislike.create({
-      data: {
-        userId,
-        dislikedById,
-      },
-    });
-
     return {
       success: true,
-      data: newDislike,
+      data: result.data,
     };
   } catch (error) {
     logger.error(error, {
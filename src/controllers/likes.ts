@@ -1,7 +1,10 @@
 import dbContext from "./dbContext";
 import logger from "../cors/logger";
+import { quotaOwner, withinQuota } from "./quotas";
 
-export const createLike = async (userId: string, likedById: string) => {
+// `limitReached` is set when the liker used up today's likes
+export const createLike = async (userId: string, liker: quotaOwner) => {
+  const likedById = liker?.id;
   try {
     if (!userId || !likedById) {
       return {
@@ -11,16 +14,25 @@ export const createLike = async (userId: string, likedById: string) => {
     }
 
     // Create a new like entry in the database
-    const newLike = await dbContext.like.create({
-      data: {
-        userId,
-        likedById,
-      },
-    });
+    const result = await withinQuota(liker, "likes", (tx) =>
+      tx.like.create({
+        data: {
+          userId,
+          likedById,
+        },
+      })
+    );
+
+    if (!result.allowed) {
+      return {
+        success: false,
+        limitReached: { limit: result.limit, resetsAt: result.resetsAt },
+      };
+    }
 
     return {
       success: true,
-      data: newLike,
+      data: result.data,
     };
   } catch (error) {
     logger.error(error, {
@@ -37,6 +49,47 @@ export const createLike = async (userId: string, likedById: string) => {
   }
 };
 
+// Users who liked `userId` back, the match list used for presence updates
+export const getMatchedUserIds = async (userId: string) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const given = await dbContext.like.findMany({
+      where: { likedById: userId },
+      select: { userId: true },
+    });
+
+    const returned = await dbContext.like.findMany({
+      where: {
+        userId,
+        likedById: { in: given.map((like) => like.userId) },
+      },
+      select: { likedById: true },
+    });
+
+    return {
+      success: true,
+      data: Array.from(new Set(returned.map((like) => like.likedById))),
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "likesDbServices.getMatchedUserIds",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching matches",
+    };
+  }
+};
+
 export const deleteLike = async (likeId: string) => {
   try {
     if (!likeId) {
@@ -0,0 +1,147 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import { generateRandomToken, hashToken } from "../cors/jwt";
+
+export const RESET_TOKEN_TTL_MINUTES = process.env.RESET_TOKEN_TTL_MINUTES
+  ? parseInt(process.env.RESET_TOKEN_TTL_MINUTES)
+  : 30;
+
+export const createPasswordReset = async (userId: string) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const token = generateRandomToken();
+
+    // Only the newest link stays usable
+    await dbContext.passwordReset.updateMany({
+      where: {
+        userId,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    const passwordReset = await dbContext.passwordReset.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+      },
+    });
+
+    return {
+      success: true,
+      data: {
+        passwordReset,
+        token,
+      },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "passwordResetsDbServices.createPasswordReset",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while creating a password reset",
+    };
+  }
+};
+
+// Sets the new hash and revokes every session, all or nothing
+export const consumePasswordReset = async (token: string, hash: string) => {
+  try {
+    if (!token || !hash) {
+      return {
+        success: false,
+        message: "Token and password are required",
+      };
+    }
+
+    const tokenHash = hashToken(token);
+
+    const userId = await dbContext.$transaction(async (tx) => {
+      const passwordReset = await tx.passwordReset.findUnique({
+        where: {
+          tokenHash,
+        },
+      });
+
+      if (
+        !passwordReset ||
+        passwordReset.usedAt ||
+        passwordReset.expiresAt < new Date()
+      ) {
+        return null;
+      }
+
+      // Guards against two requests racing on the same token
+      const claimed = await tx.passwordReset.updateMany({
+        where: {
+          id: passwordReset.id,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: {
+          id: passwordReset.userId,
+        },
+        data: {
+          hash,
+        },
+      });
+
+      await tx.session.updateMany({
+        where: {
+          userId: passwordReset.userId,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+
+      return passwordReset.userId;
+    });
+
+    if (!userId) {
+      return {
+        success: false,
+        message: "Reset link is invalid or has expired",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Password reset successfully",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "passwordResetsDbServices.consumePasswordReset",
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while resetting the password",
+      error: error.message,
+    };
+  }
+};
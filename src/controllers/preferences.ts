@@ -0,0 +1,97 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import { toDiscoveryPreferences } from "../cors/discovery";
+import { discoveryPreferences } from "../interface/discoveryPreferences";
+
+export const getDiscoveryPreferences = async (userId: string) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const preferences = await dbContext.discoveryPreferences.findUnique({
+      where: {
+        userId,
+      },
+    });
+
+    return {
+      success: true,
+      data: toDiscoveryPreferences(preferences),
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "preferencesDbServices.getDiscoveryPreferences",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching discovery preferences",
+    };
+  }
+};
+
+export const updateDiscoveryPreferences = async (
+  userId: string,
+  fields: Partial<discoveryPreferences>
+) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const currentStatus = await getDiscoveryPreferences(userId);
+
+    if (!currentStatus.success) {
+      return { ...currentStatus, error: currentStatus.message };
+    }
+
+    const merged = { ...currentStatus.data };
+    for (const key of Object.keys(fields)) {
+      if (fields[key] !== undefined) merged[key] = fields[key];
+    }
+
+    if (merged.minAge > merged.maxAge) {
+      return {
+        success: false,
+        message: "Minimum age can not be above maximum age",
+      };
+    }
+
+    const preferences = await dbContext.discoveryPreferences.upsert({
+      where: {
+        userId,
+      },
+      create: {
+        userId,
+        ...merged,
+      },
+      update: merged,
+    });
+
+    return {
+      success: true,
+      data: toDiscoveryPreferences(preferences),
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "preferencesDbServices.updateDiscoveryPreferences",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while updating discovery preferences",
+      error: error.message,
+    };
+  }
+};
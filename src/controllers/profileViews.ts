@@ -0,0 +1,123 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import {
+  locationSelect,
+  publicProfileSelect,
+  visibleTo,
+  withLocationLabel,
+} from "./users";
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// `created` is false when the viewer already looked at the profile today,
+// in that case only the time of the last view moves
+export const recordProfileView = async (viewerId: string, viewedId: string) => {
+  try {
+    if (!viewerId || !viewedId) {
+      return {
+        success: false,
+        message: "Viewer ID and Viewed ID are required",
+      };
+    }
+
+    const now = new Date();
+    const day = startOfUtcDay(now);
+
+    const updated = await dbContext.profileView.updateMany({
+      where: { viewerId, viewedId, day },
+      data: { viewedAt: now },
+    });
+
+    if (updated.count > 0) {
+      return {
+        success: true,
+        data: { created: false },
+      };
+    }
+
+    try {
+      await dbContext.profileView.create({
+        data: { viewerId, viewedId, day, viewedAt: now },
+      });
+    } catch (error) {
+      // A parallel request recorded the same view first
+      if (error.code === "P2002") {
+        return {
+          success: true,
+          data: { created: false },
+        };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      data: { created: true },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "profileViewsDbServices.recordProfileView",
+      viewerId,
+      viewedId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while recording the profile view",
+    };
+  }
+};
+
+// Latest view per viewer, newest first
+export const getRecentViewers = async (userId: string, limit = 20) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const views = await dbContext.profileView.findMany({
+      where: {
+        viewedId: userId,
+        viewer: { emailVerifiedAt: { not: null }, ...visibleTo(userId) },
+      },
+      orderBy: { viewedAt: "desc" },
+      // A viewer can have one row per day, read extra rows to fill the page
+      take: limit * 7,
+      select: {
+        viewedAt: true,
+        viewer: { select: { ...publicProfileSelect, ...locationSelect } },
+      },
+    });
+
+    const seen = new Set<string>();
+    const viewers = views
+      .filter((view) => {
+        if (seen.has(view.viewer.id)) return false;
+        seen.add(view.viewer.id);
+        return true;
+      })
+      .slice(0, limit)
+      .map((view) => ({ ...view, viewer: withLocationLabel(view.viewer) }));
+
+    return {
+      success: true,
+      data: viewers,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "profileViewsDbServices.getRecentViewers",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching recent viewers",
+    };
+  }
+};
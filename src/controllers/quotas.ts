@@ -0,0 +1,145 @@
+import { Prisma } from "@prisma/client";
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import {
+  DAILY_DISLIKE_LIMIT,
+  DAILY_LIKE_LIMIT,
+  nextQuotaDay,
+} from "../cors/quota";
+import { effectiveLocation } from "../cors/travel";
+
+export type quotaKind = "likes" | "dislikes";
+
+export type quotaOwner = {
+  id: string;
+  timezone: string | null;
+  lat: number;
+  lon: number;
+  travelLat?: number | null;
+  travelLon?: number | null;
+  travelUntil?: Date | null;
+  quotaDayStart: Date | null;
+  quotaDayEnd: Date | null;
+};
+
+const remaining = (limit: number, used: number) =>
+  limit > 0 ? Math.max(0, limit - used) : null;
+
+// The stored quota day while it lasts, otherwise the next one is worked out
+// from the current time zone and saved, see nextQuotaDay
+const currentQuotaDay = async (user: quotaOwner, now: Date) => {
+  if (user.quotaDayStart && user.quotaDayEnd && now < user.quotaDayEnd) {
+    return { start: user.quotaDayStart, end: user.quotaDayEnd };
+  }
+
+  const { lon } = effectiveLocation(user, now);
+  const day = nextQuotaDay(user.quotaDayEnd, now, user.timezone, lon);
+
+  await dbContext.user.update({
+    where: { id: user.id },
+    data: { quotaDayStart: day.start, quotaDayEnd: day.end },
+  });
+
+  return day;
+};
+
+const limitOf = (kind: quotaKind) =>
+  kind === "likes" ? DAILY_LIKE_LIMIT : DAILY_DISLIKE_LIMIT;
+
+const countUsed = (
+  tx: Prisma.TransactionClient,
+  kind: quotaKind,
+  userId: string,
+  since: Date
+) =>
+  kind === "likes"
+    ? tx.like.count({ where: { likedById: userId, createdAt: { gte: since } } })
+    : tx.dislike.count({
+        where: { dislikedById: userId, createdAt: { gte: since } },
+      });
+
+// Serializable transactions that collide fail with P2034, see
+// withinQuota
+const QUOTA_ATTEMPTS = 3;
+
+// Counts and writes in one serializable transaction, so parallel requests
+// can not both take the last like of the day. Of two colliding requests one
+// is rolled back by the database and tried again, it then sees the other's
+// write. Throws like the write does, the caller logs it.
+export const withinQuota = async <T>(
+  user: quotaOwner,
+  kind: quotaKind,
+  write: (tx: Prisma.TransactionClient) => Promise<T>
+) => {
+  const day = await currentQuotaDay(user, new Date());
+  const limit = limitOf(kind);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await dbContext.$transaction(
+        async (tx) => {
+          const used =
+            limit > 0 ? await countUsed(tx, kind, user.id, day.start) : 0;
+
+          if (limit > 0 && used >= limit) {
+            return {
+              allowed: false as const,
+              limit,
+              resetsAt: day.end,
+            };
+          }
+
+          return { allowed: true as const, data: await write(tx) };
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      if (error.code !== "P2034" || attempt >= QUOTA_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// Counts what the user gave in the current quota day, `limit` 0 and
+// `remaining` null mean unlimited
+export const getInteractionQuota = async (user: quotaOwner) => {
+  try {
+    const now = new Date();
+    const day = await currentQuotaDay(user, now);
+
+    const likesUsed = await countUsed(dbContext, "likes", user.id, day.start);
+    const dislikesUsed = await countUsed(
+      dbContext,
+      "dislikes",
+      user.id,
+      day.start
+    );
+
+    return {
+      success: true,
+      data: {
+        likes: {
+          limit: DAILY_LIKE_LIMIT,
+          used: likesUsed,
+          remaining: remaining(DAILY_LIKE_LIMIT, likesUsed),
+        },
+        dislikes: {
+          limit: DAILY_DISLIKE_LIMIT,
+          used: dislikesUsed,
+          remaining: remaining(DAILY_DISLIKE_LIMIT, dislikesUsed),
+        },
+        resetsAt: day.end,
+      },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "quotasDbServices.getInteractionQuota",
+      userId: user.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while checking the daily limits",
+    };
+  }
+};
@@ -0,0 +1,263 @@
+import crypto from "crypto";
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  buildRefreshToken,
+  generateRandomToken,
+  hashToken,
+  parseRefreshToken,
+} from "../cors/jwt";
+
+const refreshExpiry = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const createSession = async (userId: string) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const secret = generateRandomToken();
+
+    const session = await dbContext.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashToken(secret),
+        expiresAt: refreshExpiry(),
+      },
+    });
+
+    return {
+      success: true,
+      data: {
+        session,
+        refreshToken: buildRefreshToken(session.id, secret),
+      },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "sessionsDbServices.createSession",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while creating a session",
+    };
+  }
+};
+
+export const getActiveSession = async (sessionId: string) => {
+  try {
+    if (!sessionId) {
+      return {
+        success: false,
+        message: "Session ID is required",
+      };
+    }
+
+    const session = await dbContext.session.findUnique({
+      where: {
+        id: sessionId,
+      },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return {
+        success: false,
+        message: "Session is not active",
+      };
+    }
+
+    return {
+      success: true,
+      data: session,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "sessionsDbServices.getActiveSession",
+      sessionId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching the session",
+    };
+  }
+};
+
+export const rotateSession = async (refreshToken: string) => {
+  const parsed = parseRefreshToken(refreshToken);
+  try {
+    if (!parsed) {
+      return {
+        success: false,
+        message: "Invalid refresh token",
+      };
+    }
+
+    const activeStatus = await getActiveSession(parsed.sessionId);
+
+    if (!activeStatus.success) {
+      return {
+        success: false,
+        message: "Invalid refresh token",
+      };
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+    const presented = Buffer.from(presentedHash);
+    const stored = Buffer.from(activeStatus.data.refreshTokenHash);
+
+    if (
+      presented.length !== stored.length ||
+      !crypto.timingSafeEqual(presented, stored)
+    ) {
+      // An already rotated token was replayed, so the token family is
+      // compromised and the whole session goes.
+      logger.warn(`Refresh token reuse detected on session ${parsed.sessionId}`, {
+        section: "sessionsDbServices.rotateSession",
+      });
+      await revokeSession(parsed.sessionId);
+
+      return {
+        success: false,
+        message: "Invalid refresh token",
+      };
+    }
+
+    const secret = generateRandomToken();
+
+    // Compare and swap in one statement, so of two refreshes racing with the
+    // same token only one wins. The loser is not treated as a replay, its
+    // token was valid a moment ago.
+    const rotated = await dbContext.session.updateMany({
+      where: {
+        id: parsed.sessionId,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: hashToken(secret),
+        expiresAt: refreshExpiry(),
+      },
+    });
+
+    if (rotated.count === 0) {
+      return {
+        success: false,
+        message: "Invalid refresh token",
+      };
+    }
+
+    const session = await dbContext.session.findUnique({
+      where: {
+        id: parsed.sessionId,
+      },
+    });
+
+    return {
+      success: true,
+      data: {
+        session,
+        refreshToken: buildRefreshToken(parsed.sessionId, secret),
+      },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "sessionsDbServices.rotateSession",
+      sessionId: parsed?.sessionId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while refreshing the session",
+    };
+  }
+};
+
+export const revokeSession = async (sessionId: string) => {
+  try {
+    if (!sessionId) {
+      return {
+        success: false,
+        message: "Session ID is required",
+      };
+    }
+
+    await dbContext.session.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      message: "Session revoked successfully",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "sessionsDbServices.revokeSession",
+      sessionId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while revoking the session",
+    };
+  }
+};
+
+export const revokeUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const result = await dbContext.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      message: `Revoked ${result.count} sessions`,
+      data: result.count,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "sessionsDbServices.revokeUserSessions",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while revoking sessions",
+    };
+  }
+};
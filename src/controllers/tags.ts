@@ -0,0 +1,86 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import { MAX_TAGS } from "../cors/interests";
+
+export const listTags = async () => {
+  try {
+    const tags = await dbContext.tag.findMany({
+      select: { slug: true, name: true },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      success: true,
+      data: tags,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "tagsDbServices.listTags",
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching tags",
+    };
+  }
+};
+
+// Replaces the whole interest list, an empty list clears it
+export const setUserTags = async (userId: string, slugs: string[]) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    if (slugs.length > MAX_TAGS) {
+      return {
+        success: false,
+        message: `At most ${MAX_TAGS} interests can be selected`,
+      };
+    }
+
+    const tags = await dbContext.tag.findMany({
+      where: { slug: { in: slugs } },
+      select: { id: true, slug: true },
+    });
+
+    if (tags.length !== slugs.length) {
+      const known = new Set(tags.map((tag) => tag.slug));
+      return {
+        success: false,
+        message: `Unknown tags: ${slugs.filter((slug) => !known.has(slug)).join(", ")}`,
+      };
+    }
+
+    const user = await dbContext.user.update({
+      where: { id: userId },
+      data: {
+        tags: { set: tags.map((tag) => ({ id: tag.id })) },
+      },
+      select: {
+        tags: { select: { slug: true, name: true }, orderBy: { name: "asc" } },
+      },
+    });
+
+    return {
+      success: true,
+      data: user.tags,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "tagsDbServices.setUserTags",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while updating interests",
+      error: error.message,
+    };
+  }
+};
@@ -0,0 +1,234 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+import { hashToken } from "../cors/jwt";
+import { normalizeRecoveryCode, verifyTotp } from "../cors/totp";
+
+export const getTwoFactorState = async (userId: string) => {
+  try {
+    const user = await dbContext.user.findUnique({
+      where: { id: userId },
+      select: {
+        totpSecret: true,
+        totpEnabledAt: true,
+        totpLastStep: true,
+      },
+    });
+
+    if (!user) {
+      return {
+        success: false,
+        message: "User not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: user,
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.getTwoFactorState",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while fetching two-factor settings",
+    };
+  }
+};
+
+export const setPendingTotpSecret = async (userId: string, secret: string) => {
+  try {
+    const result = await dbContext.user.updateMany({
+      where: { id: userId, totpEnabledAt: null },
+      data: { totpSecret: secret, totpLastStep: null },
+    });
+
+    if (result.count === 0) {
+      return {
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Two-factor secret created",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.setPendingTotpSecret",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while creating the two-factor secret",
+    };
+  }
+};
+
+const recoveryCodeRows = (userId: string, codes: string[]) =>
+  codes.map((code) => ({
+    userId,
+    codeHash: hashToken(normalizeRecoveryCode(code)),
+  }));
+
+export const enableTotp = async (
+  userId: string,
+  step: number,
+  recoveryCodes: string[]
+) => {
+  try {
+    await dbContext.$transaction([
+      dbContext.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: new Date(), totpLastStep: step },
+      }),
+      dbContext.recoveryCode.deleteMany({ where: { userId } }),
+      dbContext.recoveryCode.createMany({
+        data: recoveryCodeRows(userId, recoveryCodes),
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: "Two-factor authentication enabled",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.enableTotp",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while enabling two-factor authentication",
+    };
+  }
+};
+
+export const replaceRecoveryCodes = async (
+  userId: string,
+  recoveryCodes: string[]
+) => {
+  try {
+    await dbContext.$transaction([
+      dbContext.recoveryCode.deleteMany({ where: { userId } }),
+      dbContext.recoveryCode.createMany({
+        data: recoveryCodeRows(userId, recoveryCodes),
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: "Recovery codes regenerated",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.replaceRecoveryCodes",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while regenerating recovery codes",
+    };
+  }
+};
+
+export const disableTotp = async (userId: string) => {
+  try {
+    await dbContext.$transaction([
+      dbContext.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+      }),
+      dbContext.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    return {
+      success: true,
+      message: "Two-factor authentication disabled",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.disableTotp",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while disabling two-factor authentication",
+    };
+  }
+};
+
+// Accepts a current TOTP code or an unused recovery code. Both are single-use:
+// a TOTP step can not be replayed and a recovery code is burnt.
+export const verifySecondFactor = async (userId: string, code: string) => {
+  try {
+    const stateStatus = await getTwoFactorState(userId);
+
+    if (!stateStatus.success || !stateStatus.data.totpSecret) {
+      return {
+        success: false,
+        message: "Two-factor authentication is not set up",
+      };
+    }
+
+    const step = verifyTotp(stateStatus.data.totpSecret, code);
+
+    if (step !== null) {
+      const claimed = await dbContext.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+        },
+        data: { totpLastStep: step },
+      });
+
+      return claimed.count > 0
+        ? { success: true, message: "Code accepted" }
+        : { success: false, message: "Code has already been used" };
+    }
+
+    const recovery = await dbContext.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (recovery.count > 0) {
+      logger.info(`Recovery code used for user ${userId}`, {
+        section: "twoFactorDbServices.verifySecondFactor",
+      });
+      return { success: true, message: "Recovery code accepted" };
+    }
+
+    return {
+      success: false,
+      message: "Invalid code",
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "twoFactorDbServices.verifySecondFactor",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while verifying the code",
+    };
+  }
+};
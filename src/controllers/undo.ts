@@ -0,0 +1,87 @@
+import dbContext from "./dbContext";
+import logger from "../cors/logger";
+
+export const UNDO_WINDOW_SECONDS = process.env.UNDO_WINDOW_SECONDS
+  ? parseInt(process.env.UNDO_WINDOW_SECONDS)
+  : 300;
+
+// How long the undone user stays pinned to the top of the nearby feed
+const PIN_MINUTES = 30;
+
+// Removes the newest like or dislike given by `userId` if it is recent
+// enough. `matched` tells whether the like had made a match.
+export const undoLastInteraction = async (userId: string) => {
+  try {
+    if (!userId) {
+      return {
+        success: false,
+        message: "User ID is required",
+      };
+    }
+
+    const since = new Date(Date.now() - UNDO_WINDOW_SECONDS * 1000);
+
+    const lastLike = await dbContext.like.findFirst({
+      where: { likedById: userId, createdAt: { gte: since } },
+      orderBy: { createdAt: "desc" },
+    });
+    const lastDislike = await dbContext.dislike.findFirst({
+      where: { dislikedById: userId, createdAt: { gte: since } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (!lastLike && !lastDislike) {
+      return {
+        success: false,
+        message: `Nothing to undo from the last ${UNDO_WINDOW_SECONDS} seconds`,
+      };
+    }
+
+    const isLike =
+      !!lastLike && (!lastDislike || lastLike.createdAt >= lastDislike.createdAt);
+    const targetId = isLike ? lastLike.userId : lastDislike.userId;
+
+    const matched = await dbContext.$transaction(async (tx) => {
+      if (isLike) {
+        await tx.like.delete({ where: { id: lastLike.id } });
+      } else {
+        await tx.dislike.delete({ where: { id: lastDislike.id } });
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          pinnedUserId: targetId,
+          pinnedUntil: new Date(Date.now() + PIN_MINUTES * 60 * 1000),
+        },
+      });
+
+      if (!isLike) return false;
+      const likedBack = await tx.like.count({
+        where: { userId, likedById: targetId },
+      });
+      return likedBack > 0;
+    });
+
+    return {
+      success: true,
+      data: {
+        type: isLike ? "like" : "dislike",
+        userId: targetId,
+        matched,
+      },
+    };
+  } catch (error) {
+    logger.error(error, {
+      section: "undoDbServices.undoLastInteraction",
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while undoing the last action",
+      error: error.message,
+    };
+  }
+};
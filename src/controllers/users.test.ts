@@ -0,0 +1,138 @@
+import { locatedWithin } from "./users";
+import { boundingBox, calculateDistance } from "../cors/locationHelper";
+import { effectiveLocation } from "../cors/travel";
+import { random, scatterAround, wrapLon } from "../cors/testPoints";
+
+jest.mock("./dbContext", () => ({ __esModule: true, default: {} }));
+
+type row = {
+  id: string;
+  lat: number;
+  lon: number;
+  travelLat: number | null;
+  travelLon: number | null;
+  travelUntil: Date | null;
+};
+
+// Evaluates the subset of Prisma filters locatedWithin uses
+const matches = (where: any, user: row): boolean =>
+  Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === "AND") return condition.every((part) => matches(part, user));
+    if (key === "OR") return condition.some((part) => matches(part, user));
+
+    const value = user[key];
+    if (condition === null) return value === null;
+
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      switch (op) {
+        case "gt":
+          return value !== null && value > operand;
+        case "gte":
+          return value !== null && value >= operand;
+        case "lte":
+          return value !== null && value <= operand;
+        case "not":
+          return operand === null ? value !== null : value !== operand;
+      }
+      throw new Error(`Unsupported filter ${op}`);
+    });
+  });
+
+// Users around the centre, some travelling to a spot near it from far away,
+// some with a travel location that already expired or sits far away
+const usersAround = (
+  lat: number,
+  lon: number,
+  radiusKm: number,
+  seed: number
+) => {
+  const now = new Date();
+  const near = scatterAround(lat, lon, radiusKm, random(seed));
+  const far = () => ({ lat: -lat / 2, lon: wrapLon(lon + 180) });
+
+  return Array.from({ length: 3000 }, (_, index): row => {
+    const kind = index % 4;
+    const home = kind === 1 ? far() : near();
+    const travel = kind === 1 || kind === 2 ? near() : far();
+    return {
+      id: `user-${index}`,
+      lat: home.lat,
+      lon: home.lon,
+      travelLat: kind === 0 ? null : travel.lat,
+      travelLon: kind === 0 ? null : travel.lon,
+      travelUntil:
+        kind === 0
+          ? null
+          : new Date(now.getTime() + (kind === 2 ? -1 : 1) * 60 * 60 * 1000),
+    };
+  });
+};
+
+const centres = [
+  { lat: 52.5, lon: 13.4 },
+  { lat: 45, lon: 179.9 },
+  { lat: -30, lon: -179.9 },
+  { lat: 89.9, lon: 0 },
+  { lat: -89.9, lon: 120 },
+  { lat: 88, lon: -179.9 },
+];
+
+describe("locatedWithin", () => {
+  it.each(centres)(
+    "finds the same users as the exact distance filter around %o",
+    (centre) => {
+      const now = new Date();
+      for (const radiusKm of [5, 50, 300]) {
+        const users = usersAround(centre.lat, centre.lon, radiusKm, radiusKm);
+        const isNear = (user: row) => {
+          const location = effectiveLocation(user, now);
+          const distance = calculateDistance(
+            centre.lat,
+            centre.lon,
+            location.lat,
+            location.lon
+          );
+          return distance <= radiusKm;
+        };
+
+        const box = boundingBox(centre.lat, centre.lon, radiusKm);
+        const where = locatedWithin(box, now);
+        const expected = users.filter(isNear).map((user) => user.id);
+        const prefiltered = users
+          .filter((user) => matches(where, user))
+          .filter(isNear)
+          .map((user) => user.id);
+
+        expect(expected.length).toBeGreaterThan(50);
+        expect(prefiltered).toEqual(expected);
+      }
+    }
+  );
+
+  it("matches travelling users on their travel location only", () => {
+    const now = new Date();
+    const where = locatedWithin(boundingBox(48.85, 2.35, 10), now);
+    const traveller = {
+      id: "traveller",
+      lat: 40.71,
+      lon: -74.0,
+      travelLat: 48.86,
+      travelLon: 2.34,
+      travelUntil: new Date(now.getTime() + 60 * 1000),
+    };
+
+    expect(matches(where, traveller)).toBe(true);
+    // At home in Paris but travelling to New York
+    const away = {
+      ...traveller,
+      lat: 48.85,
+      lon: 2.35,
+      travelLat: 40.71,
+      travelLon: -74.0,
+    };
+    expect(matches(where, away)).toBe(false);
+
+    const back = { ...traveller, travelUntil: new Date(now.getTime() - 1) };
+    expect(matches(where, back)).toBe(false);
+  });
+});
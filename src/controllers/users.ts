@@ -1,18 +1,208 @@
 import { getTokenSourceMapRange } from "typescript";
-import { calculateDistance } from "../cors/locationHelper";
+import { Prisma, Role } from "@prisma/client";
+import {
+  boundingBox,
+  calculateDistance,
+  geoBox,
+} from "../cors/locationHelper";
 import logger from "../cors/logger";
 import dbContext from "./dbContext";
+import { profileFields } from "../interface/profileFields";
+import {
+  DISLIKE_RECYCLE_DAYS,
+  isMutualMatch,
+  toDiscoveryPreferences,
+} from "../cors/discovery";
+import { tagOverlap } from "../cors/interests";
+import { coarsePosition, distanceBucket } from "../cors/locationPrivacy";
+import { privacySettings } from "../interface/privacySettings";
+import { effectiveLocation } from "../cors/travel";
+import { locationLabel, reverseGeocode } from "../cors/geocoding";
+import { encodeCursor } from "../cors/feedCursor";
+import { profileCompleteness, scoreCandidate } from "../cors/scoring";
+import { nearbyFilters } from "../interface/nearbyFilters";
+import {
+  ACTIVITY_THROTTLE_SECONDS,
+  connectedUserIds,
+  isConnected,
+  onlineSince,
+  recentlySince,
+} from "../cors/presence";
+
+const preferencesSelect = {
+  select: {
+    maxDistanceKm: true,
+    minAge: true,
+    maxAge: true,
+    genders: true,
+    recycleDislikes: true,
+  },
+} satisfies Prisma.User$discoveryPreferencesArgs;
+
+const promptSelect = {
+  select: { question: true, answer: true },
+  orderBy: { position: "asc" },
+} satisfies Prisma.User$promptsArgs;
+
+const tagSelect = {
+  select: { slug: true, name: true },
+  orderBy: { name: "asc" },
+} satisfies Prisma.User$tagsArgs;
+
+// Prompts are always written as a whole list, `position` keeps their order
+const promptRows = (prompts: profileFields["prompts"]) =>
+  prompts.map((prompt, position) => ({ ...prompt, position }));
+
+// Incognito users only show up for people they liked themselves. This is
+// evaluated on every query, so turning it off takes effect immediately.
+export const visibleTo = (viewerId: string) =>
+  ({
+    OR: [{ incognito: false }, { likedBy: { some: { userId: viewerId } } }],
+  }) satisfies Prisma.UserWhereInput;
+
+// Indexed prefilter for the nearby feed, the exact distance is checked with
+// calculateDistance afterwards. Travelling users are matched on their travel
+// location and everybody else on lat/lon, like effectiveLocation does.
+export const locatedWithin = (box: geoBox, now: Date) => {
+  const inBox = (latField: "lat" | "travelLat", lonField: "lon" | "travelLon") =>
+    ({
+      [latField]: { gte: box.latMin, lte: box.latMax },
+      OR: box.lonRanges.map((range) => ({
+        [lonField]: { gte: range.min, lte: range.max },
+      })),
+    }) as Prisma.UserWhereInput;
+
+  return {
+    OR: [
+      {
+        travelUntil: { gt: now },
+        travelLat: { not: null },
+        travelLon: { not: null },
+        AND: [inBox("travelLat", "travelLon")],
+      },
+      {
+        OR: [
+          { travelUntil: null },
+          { travelUntil: { lte: now } },
+          { travelLat: null },
+          { travelLon: null },
+        ],
+        AND: [inBox("lat", "lon")],
+      },
+    ],
+  } satisfies Prisma.UserWhereInput;
+};
+
+// Leaves out everyone the viewer already liked or disliked. With
+// `dislikedBefore` set, dislikes older than that no longer count.
+const notActedOnBy = (viewerId: string, dislikedBefore: Date | null) =>
+  ({
+    likes: { none: { likedById: viewerId } },
+    dislikes: {
+      none: {
+        dislikedById: viewerId,
+        ...(dislikedBefore ? { createdAt: { gt: dislikedBefore } } : {}),
+      },
+    },
+  }) satisfies Prisma.UserWhereInput;
+
+// What other users may see, see serializeOtherUser
+export const publicProfileSelect = {
+  id: true,
+  name: true,
+  images: { select: { id: true, filename: true } },
+  bio: true,
+  birthdate: true,
+  gender: true,
+  pronouns: true,
+  occupation: true,
+  prompts: promptSelect,
+  tags: tagSelect,
+  lastActiveAt: true,
+} satisfies Prisma.UserSelect;
+
+// Only read to work out the city label, see withLocationLabel
+export const locationSelect = {
+  lat: true,
+  lon: true,
+  travelLat: true,
+  travelLon: true,
+  travelUntil: true,
+  hideDistance: true,
+} satisfies Prisma.UserSelect;
+
+// Swaps the stored coordinates for the "city, country" label others may see
+export const withLocationLabel = <
+  T extends {
+    lat: number;
+    lon: number;
+    travelLat: number | null;
+    travelLon: number | null;
+    travelUntil: Date | null;
+    hideDistance: boolean;
+  }
+>(
+  user: T
+) => {
+  const {
+    lat,
+    lon,
+    travelLat,
+    travelLon,
+    travelUntil,
+    hideDistance,
+    ...profile
+  } = user;
+  return {
+    ...profile,
+    locationLabel: locationLabel(user),
+  };
+};
+
+// Fields loaded for the authenticated user and for login
+export const userSelect = {
+  images : true,
+  name : true,
+  email : true,
+  lat : true,
+  lon : true,
+  hash : true,
+  id : true,
+  emailVerifiedAt : true,
+  verificationSentAt : true,
+  totpEnabledAt : true,
+  role : true,
+  bio : true,
+  birthdate : true,
+  gender : true,
+  pronouns : true,
+  occupation : true,
+  timezone : true,
+  prompts : promptSelect,
+  tags : tagSelect,
+  hideDistance : true,
+  incognito : true,
+  lastActiveAt : true,
+  travelLat : true,
+  travelLon : true,
+  travelUntil : true,
+  quotaDayStart : true,
+  quotaDayEnd : true
+} satisfies Prisma.UserSelect;
 
 export const createUser = async (
   name: string,
   email: string,
   hash: string,
   lat: number,
-  lon: number
+  lon: number,
+  profile: profileFields = {}
 ) => {
   try {
     logger.info(`Attempting to create a user: ${email}`);
 
+    const { prompts, ...fields } = profile;
+
     const newUser = await dbContext.user.create({
       data: {
         name,
@@ -20,7 +210,10 @@ export const createUser = async (
         hash,
         lat,
         lon,
+        ...fields,
+        ...(prompts ? { prompts: { create: promptRows(prompts) } } : {}),
       },
+      include: { images: true, prompts: promptSelect, tags: tagSelect },
     });
 
     logger.info(`User created successfully: ${newUser.email}`);
@@ -79,6 +272,7 @@ export const getUserById = async (id: string) => {
 
     const user = await dbContext.user.findUnique({
       where: { id: id },
+      select : userSelect
     });
 
     if (!user) {
@@ -115,15 +309,7 @@ export const getUserByEmail = async (email: string) => {
 
     const user = await dbContext.user.findUnique({
       where: { email: email },
-      select : {
-        images : true,
-        name : true,
-        email : true,
-        lat : true,
-        lon : true,
-        hash : true,
-        id : true
-      }
+      select : userSelect
     });
 
     if (!user) {
@@ -154,12 +340,61 @@ export const getUserByEmail = async (email: string) => {
   }
 };
 
-export const findNearbyUsers = async (userId: string): Promise<any> => {
+// Unverified accounts and incognito users who did not like the viewer are
+// treated as missing, like in the nearby feed
+export const getPublicProfile = async (id: string, viewerId: string) => {
+  try {
+    logger.info(`Attempting to retrieve public profile of user with ID: ${id}`);
+
+    const user = await dbContext.user.findFirst({
+      where: {
+        id,
+        emailVerifiedAt: { not: null },
+        ...(id !== viewerId ? visibleTo(viewerId) : {}),
+      },
+      select: { ...publicProfileSelect, ...locationSelect },
+    });
+
+    if (!user) {
+      logger.warn(`User not found with ID: ${id}`);
+
+      return {
+        success: false,
+        message: "User not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: withLocationLabel(user),
+    };
+  } catch (error) {
+    logger.error(
+      `Error retrieving public profile of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while retrieving the profile",
+      error: error.message,
+    };
+  }
+};
+
+export const NEARBY_PAGE_SIZE = 20;
+
+// One page of the feed, ordered by the sort key and then by id so that the
+// cursor of the last card always points at a single position
+export const findNearbyUsers = async (
+  userId: string,
+  filters: nearbyFilters = {}
+): Promise<any> => {
   try {
     logger.info(`Attempting to find nearby users for user ID: ${userId}`);
 
     const currentUser = await dbContext.user.findUnique({
       where: { id: userId },
+      include: { discoveryPreferences: preferencesSelect, tags: tagSelect },
     });
 
     if (!currentUser) {
@@ -173,38 +408,247 @@ export const findNearbyUsers = async (userId: string): Promise<any> => {
 
     logger.info(`Successfully retrieved user with ID: ${userId}`);
 
-    const { lat: userLat, lon: userLon } = currentUser;
+    const now = new Date();
+    const { lat: userLat, lon: userLon } = effectiveLocation(currentUser, now);
+    const viewer = {
+      birthdate: currentUser.birthdate,
+      gender: currentUser.gender,
+      preferences: {
+        ...toDiscoveryPreferences(currentUser.discoveryPreferences),
+        ...(filters.radiusKm ? { maxDistanceKm: filters.radiusKm } : {}),
+      },
+    };
+    const sort = filters.sort || "distance";
+    const limit = filters.limit || NEARBY_PAGE_SIZE;
 
     const users = await dbContext.user.findMany({
       where: {
         id: {
           not: userId, // Exclude the current user
         },
+        emailVerifiedAt: {
+          not: null, // Unverified accounts stay out of the feed
+        },
+        // Any one of the requested interests is enough
+        ...(filters.tags && filters.tags.length > 0
+          ? { tags: { some: { slug: { in: filters.tags } } } }
+          : {}),
+        AND: [
+          visibleTo(userId),
+          notActedOnBy(
+            userId,
+            viewer.preferences.recycleDislikes
+              ? new Date(now.getTime() - DISLIKE_RECYCLE_DAYS * 24 * 60 * 60 * 1000)
+              : null
+          ),
+          // Nobody outside the viewer's own maximum distance can match
+          locatedWithin(
+            boundingBox(userLat, userLon, viewer.preferences.maxDistanceKm),
+            now
+          ),
+          // An open socket counts as online whatever lastActiveAt says
+          ...(filters.active
+            ? [
+                {
+                  OR: [
+                    {
+                      lastActiveAt: {
+                        gte:
+                          filters.active === "online"
+                            ? onlineSince(now)
+                            : recentlySince(now),
+                      },
+                    },
+                    { id: { in: connectedUserIds() } },
+                  ],
+                },
+              ]
+            : []),
+        ],
       },
+      // Only what filtering and ordering need, the profiles are loaded for
+      // the returned page alone
       select: {
-        id : true,
-        name: true, // Select only the name field
-        email: true, // Select only the email field
+        id: true,
+        bio: true,
+        birthdate: true,
+        gender: true,
+        pronouns: true,
+        occupation: true,
+        lastActiveAt: true,
         lat: true,
         lon: true,
-        images: true, // Include related images
+        travelLat: true,
+        travelLon: true,
+        travelUntil: true,
+        hideDistance: true,
+        discoveryPreferences: preferencesSelect,
+        tags: { select: { slug: true } },
+        // `likes` and `dislikes` are the ones this user received, see
+        // schema.prisma
+        _count: {
+          select: {
+            likes: true,
+            dislikes: true,
+            profileViews: true,
+            prompts: true,
+            tags: true,
+            images: true,
+          },
+        },
       },
     });
 
     logger.info(`Retrieved ${users.length} users from the database`);
 
-    const nearbyUsers = users.filter((user) => {
-      const distance = calculateDistance(userLat, userLon, user.lat, user.lon);
-      return distance < 10;
+    const nearbyUsers = users
+      .map((user) => {
+        const location = effectiveLocation(user, now);
+        return {
+          user,
+          location,
+          overlap: tagOverlap(currentUser.tags, user.tags),
+          distance: calculateDistance(
+            userLat,
+            userLon,
+            location.lat,
+            location.lon
+          ),
+        };
+      })
+      .filter(({ user, distance }) =>
+        isMutualMatch(
+          viewer,
+          {
+            birthdate: user.birthdate,
+            gender: user.gender,
+            preferences: toDiscoveryPreferences(user.discoveryPreferences),
+          },
+          distance
+        )
+      );
+
+    // Later pages are scored at the time of the first one, see feedCursor.
+    // Activity, likes and views arriving in between can still move a card.
+    const scoredAt = filters.cursor ? new Date(filters.cursor.scoredAt) : now;
+
+    const withScores = nearbyUsers.map((entry) => ({
+      ...entry,
+      score:
+        sort === "recommended" || filters.debug
+          ? scoreCandidate(
+              {
+                viewerId: userId,
+                candidateId: entry.user.id,
+                distanceKm: entry.distance,
+                radiusKm: viewer.preferences.maxDistanceKm,
+                overlapScore: entry.overlap.overlapScore,
+                connected: isConnected(entry.user.id),
+                lastActiveAt: entry.user.lastActiveAt,
+                completeness: profileCompleteness(entry.user),
+                likesReceived: entry.user._count.likes,
+                dislikesReceived: entry.user._count.dislikes,
+                viewsReceived: entry.user._count.profileViews,
+              },
+              scoredAt
+            )
+          : null,
+    }));
+
+    // Ascending for every sort, the most recently active user and the best
+    // recommendation have the smallest key. Connected users share a constant
+    // key, one based on the request time would put every connected user
+    // behind the cursor of the previous page.
+    const sortKey = (entry: (typeof withScores)[number]) => {
+      if (sort === "recommended") return -entry.score.score;
+      if (sort === "activity") {
+        if (isConnected(entry.user.id)) return -Number.MAX_SAFE_INTEGER;
+        return entry.user.lastActiveAt ? -entry.user.lastActiveAt.getTime() : 0;
+      }
+      return entry.distance;
+    };
+
+    const ordered = withScores
+      .map((entry) => ({ ...entry, key: sortKey(entry) }))
+      .sort((a, b) =>
+        a.key !== b.key
+          ? a.key - b.key
+          : a.user.id < b.user.id
+          ? -1
+          : a.user.id > b.user.id
+          ? 1
+          : 0
+      );
+
+    // A user brought back by undo leads the first page and is left out of
+    // the ones after it
+    const pinnedId =
+      currentUser.pinnedUntil && currentUser.pinnedUntil > now
+        ? currentUser.pinnedUserId
+        : null;
+    const pinned = ordered.find((entry) => entry.user.id === pinnedId);
+    const unpinned = pinned
+      ? ordered.filter((entry) => entry !== pinned)
+      : ordered;
+
+    const cursor = filters.cursor;
+    const remaining = cursor
+      ? unpinned.filter(
+          (entry) =>
+            entry.key > cursor.key ||
+            (entry.key === cursor.key && entry.user.id > cursor.id)
+        )
+      : pinned
+      ? [pinned, ...unpinned]
+      : unpinned;
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const profiles = await dbContext.user.findMany({
+      where: { id: { in: page.map((entry) => entry.user.id) } },
+      select: publicProfileSelect,
     });
+    const profileById = new Map(
+      profiles.map((profile) => [profile.id, profile])
+    );
+    // After the pinned card the next page starts at the very beginning
+    const lastKey = last === pinned ? -Number.MAX_VALUE : last?.key;
 
     logger.info(
-      `Found ${nearbyUsers.length} nearby users within 10 kilometers of user ID: ${userId}`
+      `Found ${nearbyUsers.length} nearby users within ${viewer.preferences.maxDistanceKm} kilometers of user ID: ${userId}, returning ${page.length}`
     );
 
     return {
       success: true,
-      data: nearbyUsers,
+      nextCursor:
+        remaining.length > limit
+          ? encodeCursor({
+              sort,
+              key: lastKey,
+              id: last.user.id,
+              scoredAt: scoredAt.getTime(),
+            })
+          : null,
+      // Stored coordinates never leave this function. A user deleted since
+      // the first query is left out.
+      data: page
+        .filter(({ user }) => profileById.has(user.id))
+        .map(({ user, location, distance, score }) => {
+          const profile = profileById.get(user.id);
+          return {
+            ...profile,
+            ...tagOverlap(currentUser.tags, profile.tags),
+            ...(filters.debug ? { scoreBreakdown: score } : {}),
+            travelling: location.travelling,
+            distanceKm: user.hideDistance ? null : distanceBucket(distance),
+            locationLabel: user.hideDistance
+              ? null
+              : reverseGeocode(location.lat, location.lon),
+            approximateLocation: user.hideDistance
+              ? null
+              : coarsePosition(user.id, location.lat, location.lon),
+          };
+        }),
     };
   } catch (error) {
     logger.error(
@@ -220,39 +664,545 @@ export const findNearbyUsers = async (userId: string): Promise<any> => {
 };
 
 export const updateUser = async (
-  email: string,
+  id: string,
   name?: string,
   hash?: string,
   lat?: number,
-  lon?: number
+  lon?: number,
+  profile: profileFields = {}
 ) => {
   try {
-    logger.info(`Attempting to update user with email: ${email}`);
+    logger.info(`Attempting to update user with ID: ${id}`);
 
     const existingUser = await dbContext.user.findUnique({
-      where: { email },
+      where: { id },
     });
 
     if (!existingUser) {
-      logger.warn(`User with email ${email} not found`);
+      logger.warn(`User with ID ${id} not found`);
 
       return {
         success: false,
-        message: `User with email ${email} not found`,
+        message: `User with ID ${id} not found`,
       };
     }
 
     const updatedUser = await dbContext.user.update({
-      where: { email },
+      where: { id },
       data: {
         name: name ?? existingUser.name,
         hash: hash ?? existingUser.hash,
         lat: lat ?? existingUser.lat,
         lon: lon ?? existingUser.lon,
+        // Prisma leaves undefined fields alone, null clears them
+        bio: profile.bio,
+        birthdate: profile.birthdate,
+        gender: profile.gender,
+        pronouns: profile.pronouns,
+        occupation: profile.occupation,
+        timezone: profile.timezone,
+        ...(profile.prompts
+          ? {
+              prompts: {
+                deleteMany: {},
+                create: promptRows(profile.prompts),
+              },
+            }
+          : {}),
+      },
+      include: { images: true, prompts: promptSelect, tags: tagSelect },
+    });
+
+    logger.info(`User updated successfully: ${updatedUser.id}`);
+
+    return {
+      success: true,
+      message: "User updated successfully",
+      data: updatedUser,
+    };
+  } catch (error) {
+    logger.error(`Error updating user: ${id}, Error: ${error.message}`);
+
+    return {
+      success: false,
+      message: "Something went wrong while updating the user",
+      error: error.message,
+    };
+  }
+};
+
+export const updatePrivacySettings = async (
+  id: string,
+  settings: privacySettings
+) => {
+  try {
+    logger.info(`Attempting to update privacy settings of user with ID: ${id}`);
+
+    const user = await dbContext.user.update({
+      where: { id },
+      data: {
+        hideDistance: settings.hideDistance,
+        incognito: settings.incognito,
+      },
+      select: userSelect,
+    });
+
+    return {
+      success: true,
+      data: user,
+    };
+  } catch (error) {
+    logger.error(
+      `Error updating privacy settings of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while updating privacy settings",
+      error: error.message,
+    };
+  }
+};
+
+// Passing null ends travel mode right away
+export const setTravelLocation = async (
+  id: string,
+  travel: { lat: number; lon: number; until: Date } | null
+) => {
+  try {
+    logger.info(`Attempting to update travel location of user with ID: ${id}`);
+
+    const user = await dbContext.user.update({
+      where: { id },
+      data: {
+        travelLat: travel ? travel.lat : null,
+        travelLon: travel ? travel.lon : null,
+        travelUntil: travel ? travel.until : null,
+      },
+      select: userSelect,
+    });
+
+    return {
+      success: true,
+      data: user,
+    };
+  } catch (error) {
+    logger.error(
+      `Error updating travel location of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while updating the travel location",
+      error: error.message,
+    };
+  }
+};
+
+// Skipped while the stored value is newer than the throttle, which keeps
+// protectClient from writing on every request. Resolves to true on a write.
+export const touchLastActive = async (
+  id: string,
+  throttleSeconds = ACTIVITY_THROTTLE_SECONDS
+) => {
+  try {
+    const now = new Date();
+    const result = await dbContext.user.updateMany({
+      where: {
+        id,
+        OR: [
+          { lastActiveAt: null },
+          {
+            lastActiveAt: {
+              lt: new Date(now.getTime() - throttleSeconds * 1000),
+            },
+          },
+        ],
+      },
+      data: { lastActiveAt: now },
+    });
+
+    return {
+      success: true,
+      data: result.count > 0,
+    };
+  } catch (error) {
+    logger.error(
+      `Error updating activity of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while updating the activity",
+      error: error.message,
+    };
+  }
+};
+
+export const setVerificationSentAt = async (email: string, sentAt: Date) => {
+  try {
+    logger.info(`Attempting to record verification mail for: ${email}`);
+
+    const updatedUser = await dbContext.user.update({
+      where: { email },
+      data: { verificationSentAt: sentAt },
+    });
+
+    return {
+      success: true,
+      data: updatedUser,
+    };
+  } catch (error) {
+    logger.error(
+      `Error recording verification mail for: ${email}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while updating the user",
+      error: error.message,
+    };
+  }
+};
+
+export const markEmailVerified = async (email: string, sentAt: Date) => {
+  try {
+    logger.info(`Attempting to verify email: ${email}`);
+
+    // Only the most recently sent, still unused token matches
+    const result = await dbContext.user.updateMany({
+      where: {
+        email,
+        emailVerifiedAt: null,
+        verificationSentAt: sentAt,
+      },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      logger.warn(`Verification token rejected for email: ${email}`);
+
+      return {
+        success: false,
+        message: "Verification link is invalid or has already been used",
+      };
+    }
+
+    logger.info(`Email verified successfully: ${email}`);
+
+    return {
+      success: true,
+      message: "Email verified successfully",
+    };
+  } catch (error) {
+    logger.error(`Error verifying email: ${email}, Error: ${error.message}`);
+
+    return {
+      success: false,
+      message: "Something went wrong while verifying the email",
+      error: error.message,
+    };
+  }
+};
+
+export const deleteUserAccount = async (id: string) => {
+  try {
+    logger.info(`Attempting to delete user with ID: ${id}`);
+
+    const filenames = await dbContext.$transaction(async (tx) => {
+      const images = await tx.image.findMany({
+        where: { userId: id },
+        select: { filename: true },
+      });
+
+      await tx.like.deleteMany({
+        where: { OR: [{ userId: id }, { likedById: id }] },
+      });
+      await tx.dislike.deleteMany({
+        where: { OR: [{ userId: id }, { dislikedById: id }] },
+      });
+      await tx.image.deleteMany({ where: { userId: id } });
+      await tx.session.deleteMany({ where: { userId: id } });
+      await tx.passwordReset.deleteMany({ where: { userId: id } });
+      await tx.recoveryCode.deleteMany({ where: { userId: id } });
+      await tx.profilePrompt.deleteMany({ where: { userId: id } });
+      await tx.discoveryPreferences.deleteMany({ where: { userId: id } });
+      await tx.profileView.deleteMany({
+        where: { OR: [{ viewedId: id }, { viewerId: id }] },
+      });
+      await tx.user.delete({ where: { id } });
+
+      return images.map((image) => image.filename);
+    });
+
+    logger.info(`User deleted successfully: ${id}`);
+
+    return {
+      success: true,
+      message: "User deleted successfully",
+      data: filenames,
+    };
+  } catch (error) {
+    logger.error(`Error deleting user: ${id}, Error: ${error.message}`);
+
+    return {
+      success: false,
+      message: "Something went wrong while deleting the user",
+      error: error.message,
+    };
+  }
+};
+
+// Everything the data export contains, see writeUserExport
+export const userExportSelect = {
+  id: true,
+  name: true,
+  email: true,
+  lat: true,
+  lon: true,
+  travelLat: true,
+  travelLon: true,
+  travelUntil: true,
+  hideDistance: true,
+  incognito: true,
+  lastActiveAt: true,
+  timezone: true,
+  emailVerifiedAt: true,
+  bio: true,
+  birthdate: true,
+  gender: true,
+  pronouns: true,
+  occupation: true,
+  prompts: promptSelect,
+  tags: tagSelect,
+  discoveryPreferences: preferencesSelect,
+  images: { select: { id: true, filename: true } },
+  likes: { select: { id: true, likedById: true, createdAt: true } },
+  likedBy: { select: { id: true, userId: true, createdAt: true } },
+  dislikes: { select: { id: true, dislikedById: true, createdAt: true } },
+  dislikedBy: { select: { id: true, userId: true, createdAt: true } },
+  viewedProfiles: { select: { viewedId: true, viewedAt: true } },
+  profileViews: { select: { viewerId: true, viewedAt: true } },
+} satisfies Prisma.UserSelect;
+
+export const getUserExport = async (id: string) => {
+  try {
+    logger.info(`Attempting to collect export data for user with ID: ${id}`);
+
+    const user = await dbContext.user.findUnique({
+      where: { id },
+      select: userExportSelect,
+    });
+
+    if (!user) {
+      logger.warn(`User not found with ID: ${id}`);
+
+      return {
+        success: false,
+        message: "User not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: user,
+    };
+  } catch (error) {
+    logger.error(
+      `Error collecting export data for user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while exporting the user",
+      error: error.message,
+    };
+  }
+};
+
+export const searchUsers = async (
+  search: string | undefined,
+  take: number,
+  skip: number
+) => {
+  try {
+    if (take < 0 || skip < 0) {
+      return {
+        success: false,
+        message: "Invalid pagination parameters",
+      };
+    }
+
+    logger.info(`Attempting to search users: ${search ?? ""}`);
+
+    const where = search
+      ? {
+          OR: [
+            { name: { contains: search } },
+            { email: { contains: search } },
+            { id: search },
+          ],
+        }
+      : {};
+
+    const [users, total] = await dbContext.$transaction([
+      dbContext.user.findMany({
+        where,
+        take,
+        skip,
+        orderBy: { email: "asc" },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          emailVerifiedAt: true,
+        },
+      }),
+      dbContext.user.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: { users, total, take, skip },
+    };
+  } catch (error) {
+    logger.error(`Error searching users, Error: ${error.message}`);
+
+    return {
+      success: false,
+      message: "Something went wrong while searching users",
+      error: error.message,
+    };
+  }
+};
+
+export const getUserDetails = async (id: string) => {
+  try {
+    logger.info(`Attempting to retrieve details of user with ID: ${id}`);
+
+    const user = await dbContext.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        lat: true,
+        lon: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
+        bio: true,
+        birthdate: true,
+        gender: true,
+        pronouns: true,
+        occupation: true,
+        prompts: promptSelect,
+        tags: tagSelect,
+        images: { select: { id: true, filename: true } },
+        // `likes` are received and `likedBy` are given, see schema.prisma
+        _count: {
+          select: {
+            likes: true,
+            likedBy: true,
+            dislikes: true,
+            dislikedBy: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      logger.warn(`User not found with ID: ${id}`);
+
+      return {
+        success: false,
+        message: "User not found",
+      };
+    }
+
+    const { _count, ...rest } = user;
+
+    return {
+      success: true,
+      data: {
+        ...rest,
+        counts: {
+          likesReceived: _count.likes,
+          likesGiven: _count.likedBy,
+          dislikesReceived: _count.dislikes,
+          dislikesGiven: _count.dislikedBy,
+        },
+      },
+    };
+  } catch (error) {
+    logger.error(
+      `Error retrieving details of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while retrieving the user",
+      error: error.message,
+    };
+  }
+};
+
+export const adminUpdateUser = async (
+  id: string,
+  fields: {
+    name?: string;
+    email?: string;
+    lat?: number;
+    lon?: number;
+    role?: Role;
+    hash?: string;
+  },
+  profile: profileFields = {}
+) => {
+  try {
+    logger.info(`Attempting to update user with ID: ${id} as admin`);
+
+    const existingUser = await dbContext.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      logger.warn(`User with ID ${id} not found`);
+
+      return {
+        success: false,
+        message: `User with ID ${id} not found`,
+      };
+    }
+
+    const updatedUser = await dbContext.user.update({
+      where: { id },
+      data: {
+        name: fields.name ?? existingUser.name,
+        email: fields.email ?? existingUser.email,
+        lat: fields.lat ?? existingUser.lat,
+        lon: fields.lon ?? existingUser.lon,
+        role: fields.role ?? existingUser.role,
+        hash: fields.hash ?? existingUser.hash,
+        bio: profile.bio,
+        birthdate: profile.birthdate,
+        gender: profile.gender,
+        pronouns: profile.pronouns,
+        occupation: profile.occupation,
+        timezone: profile.timezone,
+        ...(profile.prompts
+          ? {
+              prompts: {
+                deleteMany: {},
+                create: promptRows(profile.prompts),
+              },
+            }
+          : {}),
       },
     });
 
-    logger.info(`User updated successfully: ${updatedUser.email}`);
+    logger.info(`User updated successfully by admin: ${updatedUser.id}`);
 
     return {
       success: true,
@@ -260,7 +1210,18 @@ export const updateUser = async (
       data: updatedUser,
     };
   } catch (error) {
-    logger.error(`Error updating user: ${email}, Error: ${error.message}`);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        success: false,
+        message: "Email is already in use",
+        conflict: true,
+      };
+    }
+
+    logger.error(`Error updating user: ${id}, Error: ${error.message}`);
 
     return {
       success: false,
@@ -269,3 +1230,56 @@ export const updateUser = async (
     };
   }
 };
+
+export const changeUserEmail = async (
+  id: string,
+  currentEmail: string,
+  newEmail: string
+) => {
+  try {
+    logger.info(`Attempting to change email of user with ID: ${id}`);
+
+    // Likes, images and sessions reference the id, so they are untouched
+    const result = await dbContext.user.updateMany({
+      where: { id, email: currentEmail },
+      data: { email: newEmail, emailVerifiedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      logger.warn(`Email change link is stale for user with ID: ${id}`);
+
+      return {
+        success: false,
+        message: "Email change link is invalid or has already been used",
+      };
+    }
+
+    logger.info(`Email changed successfully for user with ID: ${id}`);
+
+    return {
+      success: true,
+      message: "Email changed successfully",
+    };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        success: false,
+        message: "Email is already in use",
+        conflict: true,
+      };
+    }
+
+    logger.error(
+      `Error changing email of user: ${id}, Error: ${error.message}`
+    );
+
+    return {
+      success: false,
+      message: "Something went wrong while changing the email",
+      error: error.message,
+    };
+  }
+};
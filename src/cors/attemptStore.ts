@@ -0,0 +1,32 @@
+import { attemptRecord, attemptStore } from "../interface/attemptStore";
+
+// Per-process store, counters are lost on restart and not shared between instances
+export const createMemoryAttemptStore = (): attemptStore => {
+  const records = new Map<string, { record: attemptRecord; expiresAt: number }>();
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [key, value] of records) {
+      if (value.expiresAt <= now) records.delete(key);
+    }
+  };
+  setInterval(sweep, 60 * 1000).unref();
+
+  return {
+    get: async (key: string) => {
+      const value = records.get(key);
+      if (!value) return null;
+      if (value.expiresAt <= Date.now()) {
+        records.delete(key);
+        return null;
+      }
+      return { ...value.record };
+    },
+    set: async (key: string, record: attemptRecord, ttlMs: number) => {
+      records.set(key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+    },
+    delete: async (key: string) => {
+      records.delete(key);
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import archiver from "archiver";
+import { Writable } from "stream";
+import { imagesPath } from "./imageFiles";
+import { userExport } from "../interface/userExport";
+
+// Pipes a zip with the user's profile, interactions and photos into `output`.
+// Note that in the schema `likes` are the likes a user received and `likedBy`
+// the ones they gave, the archive uses explicit names instead.
+export const writeUserExport = (output: Writable, user: userExport) =>
+  new Promise<void>((resolve, reject) => {
+    const archive = archiver("zip", { zlib: { level: 9 } });
+
+    // An image that can not be read halfway through fails the export. The
+    // archive stops writing and the caller ends the response it started.
+    archive.on("error", (error) => {
+      archive.unpipe(output);
+      archive.abort();
+      reject(error);
+    });
+
+    archive.pipe(output);
+
+    const json = (value: any) => JSON.stringify(value, null, 2);
+
+    archive.append(
+      json({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        lat: user.lat,
+        lon: user.lon,
+        travelLat: user.travelLat,
+        travelLon: user.travelLon,
+        travelUntil: user.travelUntil,
+        hideDistance: user.hideDistance,
+        incognito: user.incognito,
+        lastActiveAt: user.lastActiveAt,
+        timezone: user.timezone,
+        emailVerifiedAt: user.emailVerifiedAt,
+        bio: user.bio,
+        birthdate: user.birthdate,
+        gender: user.gender,
+        pronouns: user.pronouns,
+        occupation: user.occupation,
+        prompts: user.prompts,
+        interests: user.tags.map((tag) => tag.slug),
+        discoveryPreferences: user.discoveryPreferences,
+        exportedAt: new Date().toISOString(),
+      }),
+      { name: "profile.json" }
+    );
+
+    archive.append(
+      json({
+        given: user.likedBy.map((like) => ({
+          id: like.id,
+          likedUserId: like.userId,
+          createdAt: like.createdAt,
+        })),
+        received: user.likes.map((like) => ({
+          id: like.id,
+          likedById: like.likedById,
+          createdAt: like.createdAt,
+        })),
+      }),
+      { name: "likes.json" }
+    );
+
+    archive.append(
+      json({
+        given: user.dislikedBy.map((dislike) => ({
+          id: dislike.id,
+          dislikedUserId: dislike.userId,
+          createdAt: dislike.createdAt,
+        })),
+        received: user.dislikes.map((dislike) => ({
+          id: dislike.id,
+          dislikedById: dislike.dislikedById,
+          createdAt: dislike.createdAt,
+        })),
+      }),
+      { name: "dislikes.json" }
+    );
+
+    archive.append(
+      json({
+        given: user.viewedProfiles,
+        received: user.profileViews,
+      }),
+      { name: "profile-views.json" }
+    );
+
+    for (const image of user.images) {
+      const filePath = path.join(imagesPath, path.basename(image.filename));
+      if (fs.existsSync(filePath)) {
+        archive.file(filePath, { name: `images/${image.filename}` });
+      }
+    }
+
+    archive.finalize().then(resolve, reject);
+  });
@@ -0,0 +1,77 @@
+import { Gender } from "@prisma/client";
+import { computeAge, MIN_AGE } from "./profile";
+import { distanceBucket } from "./locationPrivacy";
+import { discoveryPreferences } from "../interface/discoveryPreferences";
+
+export const MAX_AGE = 99;
+export const MAX_DISTANCE_KM = 500;
+
+export const DISLIKE_RECYCLE_DAYS = process.env.DISLIKE_RECYCLE_DAYS
+  ? parseInt(process.env.DISLIKE_RECYCLE_DAYS)
+  : 30;
+
+// Used for users who never saved preferences, matches the old fixed feed
+export const defaultDiscoveryPreferences: discoveryPreferences = {
+  maxDistanceKm: 10,
+  minAge: MIN_AGE,
+  maxAge: MAX_AGE,
+  genders: [],
+  recycleDislikes: false,
+};
+
+export const toDiscoveryPreferences = (
+  record?: {
+    maxDistanceKm: number;
+    minAge: number;
+    maxAge: number;
+    genders: any;
+    recycleDislikes: boolean;
+  } | null
+): discoveryPreferences =>
+  record
+    ? {
+        maxDistanceKm: record.maxDistanceKm,
+        minAge: record.minAge,
+        maxAge: record.maxAge,
+        genders: Array.isArray(record.genders) ? record.genders : [],
+        recycleDislikes: record.recycleDislikes,
+      }
+    : { ...defaultDiscoveryPreferences };
+
+// A missing age only passes an unrestricted range, otherwise hiding the
+// birthdate would be a way around other people's filters
+const ageAccepted = (preferences: discoveryPreferences, age: number | null) => {
+  if (age === null) {
+    return preferences.minAge <= MIN_AGE && preferences.maxAge >= MAX_AGE;
+  }
+  return age >= preferences.minAge && age <= preferences.maxAge;
+};
+
+const genderAccepted = (
+  preferences: discoveryPreferences,
+  gender: Gender | null
+) => {
+  if (preferences.genders.length === 0) return true;
+  return gender !== null && preferences.genders.includes(gender);
+};
+
+type discoveryProfile = {
+  birthdate: Date | null;
+  gender: Gender | null;
+  preferences: discoveryPreferences;
+};
+
+// Both people have to fall inside each other's preferences. The distance is
+// compared in the buckets other users are shown, otherwise narrowing the
+// radius step by step would give the exact distance away.
+export const isMutualMatch = (
+  viewer: discoveryProfile,
+  candidate: discoveryProfile,
+  distanceKm: number
+) =>
+  distanceBucket(distanceKm) <= viewer.preferences.maxDistanceKm &&
+  distanceBucket(distanceKm) <= candidate.preferences.maxDistanceKm &&
+  ageAccepted(viewer.preferences, computeAge(candidate.birthdate)) &&
+  ageAccepted(candidate.preferences, computeAge(viewer.birthdate)) &&
+  genderAccepted(viewer.preferences, candidate.gender) &&
+  genderAccepted(candidate.preferences, viewer.gender);
@@ -0,0 +1,68 @@
+import { generateEmailChangeJWT, generateVerificationJWT } from "./jwt";
+import { APP_URL, sendMail } from "./mailer";
+import { setVerificationSentAt } from "../controllers/users";
+
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = process.env
+  .VERIFICATION_RESEND_COOLDOWN_SECONDS
+  ? parseInt(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS)
+  : 60;
+
+export const sendVerificationEmail = async (email: string, name: string) => {
+  const sentAt = new Date();
+
+  const updateStatus = await setVerificationSentAt(email, sentAt);
+  if (!updateStatus.success) {
+    return {
+      success: false,
+      message: updateStatus.message,
+    };
+  }
+
+  const token = generateVerificationJWT(email, sentAt);
+  const link = `${APP_URL}/client/auth/verify?token=${encodeURIComponent(
+    token
+  )}`;
+
+  return sendMail(
+    email,
+    "Verify your NearbyConnect account",
+    `Hi ${name},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link is valid for 24 hours.`
+  );
+};
+
+// Seconds left before another verification mail may be sent
+export const verificationCooldownRemaining = (verificationSentAt?: Date) => {
+  if (!verificationSentAt) return 0;
+  const elapsed = (Date.now() - verificationSentAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(VERIFICATION_RESEND_COOLDOWN_SECONDS - elapsed));
+};
+
+export const sendEmailChangeConfirmation = async (
+  userId: string,
+  name: string,
+  currentEmail: string,
+  newEmail: string
+) => {
+  const token = generateEmailChangeJWT(userId, currentEmail, newEmail);
+  const link = `${APP_URL}/client/auth/email/confirm?token=${encodeURIComponent(
+    token
+  )}`;
+
+  return sendMail(
+    newEmail,
+    "Confirm your new NearbyConnect email",
+    `Hi ${name},\n\nPlease confirm that you want to use this address for your account by opening the link below:\n\n${link}\n\nThe link is valid for 24 hours.`
+  );
+};
+
+export const sendEmailChangedNotice = async (
+  name: string,
+  oldEmail: string,
+  newEmail: string
+) => {
+  return sendMail(
+    oldEmail,
+    "Your NearbyConnect email was changed",
+    `Hi ${name},\n\nThe email address of your account was changed to ${newEmail}. If you did not do this, reset your password and contact support.`
+  );
+};
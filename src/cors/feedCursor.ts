@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+let JWT_SECRET = process.env.JWT_SECRET ? process.env.JWT_SECRET : "secret";
+
+// The cursor holds the exact sort key of the last card, for the distance sort
+// that is the exact distance, so it is encrypted and not only encoded. It
+// also carries the time the first page was scored at, later pages are scored
+// at the same time so that time decay does not move cards between pages.
+const key = crypto.createHash("sha256").update(`${JWT_SECRET}:feed-cursor`).digest();
+
+export type feedCursor = {
+  sort: string;
+  key: number;
+  id: string;
+  scoredAt: number;
+};
+
+export function encodeCursor(cursor: feedCursor) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const body = Buffer.concat([
+    cipher.update(JSON.stringify(cursor), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64url");
+}
+
+export function decodeCursor(value: string): feedCursor | null {
+  try {
+    const raw = Buffer.from(value, "base64url");
+    if (raw.length < 29) return null;
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const cursor = JSON.parse(
+      Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8")
+    );
+    if (
+      typeof cursor.sort !== "string" ||
+      typeof cursor.key !== "number" ||
+      typeof cursor.id !== "string" ||
+      typeof cursor.scoredAt !== "number"
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch (error) {
+    return null;
+  }
+}
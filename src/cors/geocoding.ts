@@ -0,0 +1,151 @@
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+import { dirPath } from "../../path";
+import { calculateDistance } from "./locationHelper";
+import { effectiveLocation } from "./travel";
+
+const GAZETTEER_PATH = process.env.GAZETTEER_PATH
+  ? process.env.GAZETTEER_PATH
+  : path.join(dirPath, "data", "cities.tsv");
+
+// Coordinates further than this from every known city get no label
+export const REVERSE_GEOCODE_MAX_KM = process.env.REVERSE_GEOCODE_MAX_KM
+  ? parseFloat(process.env.REVERSE_GEOCODE_MAX_KM)
+  : 50;
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+type place = {
+  name: string;
+  country: string;
+  lat: number;
+  lon: number;
+  population: number;
+};
+
+let gazetteer: place[] | null = null;
+
+// "São Paulo", "sao paulo" and "Sao-Paulo" all become "sao paulo"
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Tab separated name, country, lat, lon and population, one city per line,
+// loaded once. Lines starting with # are comments.
+const getGazetteer = () => {
+  if (gazetteer) return gazetteer;
+  try {
+    gazetteer = fs
+      .readFileSync(GAZETTEER_PATH, "utf8")
+      .split(/\r?\n/)
+      .filter((line) => line.trim() && !line.startsWith("#"))
+      .map((line) => {
+        const [name, country, lat, lon, population] = line.split("\t");
+        return {
+          name: name.trim(),
+          country: (country || "").trim(),
+          lat: parseFloat(lat),
+          lon: parseFloat(lon),
+          population: parseInt(population) || 0,
+        };
+      })
+      .filter(
+        (entry) =>
+          entry.name &&
+          entry.country &&
+          Number.isFinite(entry.lat) &&
+          Number.isFinite(entry.lon)
+      );
+  } catch (error) {
+    logger.warn(`Gazetteer not loaded from ${GAZETTEER_PATH}`, {
+      section: "geocoding.getGazetteer",
+    });
+    gazetteer = [];
+  }
+  return gazetteer;
+};
+
+export const placeLabel = (entry: place) => `${entry.name}, ${entry.country}`;
+
+// Accepts "City" or "City, Country". Several cities share a name, the
+// largest one wins unless the country says otherwise.
+export const geocode = (query: string) => {
+  if (typeof query !== "string") return null;
+
+  const parts = query.split(",").map(normalize).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const name = parts[0];
+  const country = parts.length > 1 ? parts[parts.length - 1] : null;
+
+  const best = getGazetteer()
+    .filter(
+      (entry) =>
+        normalize(entry.name) === name &&
+        (!country || normalize(entry.country) === country)
+    )
+    .reduce<place | null>(
+      (found, entry) =>
+        !found || entry.population > found.population ? entry : found,
+      null
+    );
+
+  if (!best) return null;
+
+  return { lat: best.lat, lon: best.lon, label: placeLabel(best) };
+};
+
+// Label of the nearest city within REVERSE_GEOCODE_MAX_KM
+export const reverseGeocode = (lat?: number | null, lon?: number | null) => {
+  if (lat == null || lon == null) return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  // Cheap latitude check first, a degree of latitude is always ~111 km
+  const maxLatDelta = REVERSE_GEOCODE_MAX_KM / KM_PER_DEGREE_LAT;
+
+  let nearest: place | null = null;
+  let nearestKm = REVERSE_GEOCODE_MAX_KM;
+  for (const entry of getGazetteer()) {
+    if (Math.abs(entry.lat - lat) > maxLatDelta) continue;
+    const distance = calculateDistance(lat, lon, entry.lat, entry.lon);
+    if (distance <= nearestKm) {
+      nearest = entry;
+      nearestKm = distance;
+    }
+  }
+
+  return nearest ? placeLabel(nearest) : null;
+};
+
+// What other users see instead of coordinates. Travelling users are labelled
+// with their travel location, like in the nearby feed, and hideDistance
+// hides the city as well.
+export const locationLabel = (user: {
+  lat: number;
+  lon: number;
+  travelLat?: number | null;
+  travelLon?: number | null;
+  travelUntil?: Date | null;
+  hideDistance?: boolean;
+}) => {
+  if (user.hideDistance) return null;
+  const location = effectiveLocation(user);
+  return reverseGeocode(location.lat, location.lon);
+};
+
+// express-validator custom validator for place names
+export const knownPlace = (value: string) => {
+  if (typeof value !== "string" || value.length > 100) {
+    throw new Error("Place must be a string of at most 100 characters");
+  }
+  if (!geocode(value)) {
+    throw new Error("Unknown place, send lat and lon instead");
+  }
+  return true;
+};
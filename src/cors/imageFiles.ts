@@ -0,0 +1,19 @@
+import fs from "fs";
+import path from "path";
+import { dirPath } from "../../path";
+
+// Same folder multer writes uploads to
+export const imagesPath = path.join(dirPath, "public/images");
+
+// Best effort, returns the files that could not be removed
+export const removeImageFiles = async (filenames: string[]) => {
+  const failed: string[] = [];
+  for (const filename of filenames) {
+    try {
+      await fs.promises.unlink(path.join(imagesPath, path.basename(filename)));
+    } catch (error) {
+      if (error.code !== "ENOENT") failed.push(filename);
+    }
+  }
+  return failed;
+};
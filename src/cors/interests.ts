@@ -0,0 +1,34 @@
+export const MAX_TAGS = 10;
+
+type tagRecord = { slug: string; name: string };
+
+export const serializeTag = (tag: tagRecord) => ({
+  slug: tag.slug,
+  name: tag.name,
+});
+
+// Jaccard index of both interest lists, 0 when either side has none
+export const tagOverlap = <T extends { slug: string }>(
+  viewerTags: { slug: string }[],
+  candidateTags: T[]
+) => {
+  const viewerSlugs = new Set(viewerTags.map((tag) => tag.slug));
+  const sharedTags = candidateTags.filter((tag) => viewerSlugs.has(tag.slug));
+  const union = viewerSlugs.size + candidateTags.length - sharedTags.length;
+
+  return {
+    sharedTags,
+    overlapScore:
+      union === 0 ? 0 : Math.round((sharedTags.length / union) * 100) / 100,
+  };
+};
+
+// `?tags=hiking,chess` and `?tags=hiking&tags=chess` both work
+export const parseTagQuery = (value: any): string[] => {
+  if (value === undefined) return [];
+  const parts = (Array.isArray(value) ? value : [value])
+    .flatMap((part) => String(part).split(","))
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.length > 0);
+  return Array.from(new Set(parts));
+};
@@ -1,16 +1,27 @@
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
 
 let JWT_SECRET = process.env.JWT_SECRET ? process.env.JWT_SECRET : "secret";
 
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL
+  ? process.env.ACCESS_TOKEN_TTL
+  : "15m";
 
-export function generateClientJWT(email : string) {
-  if (!email) return;
+export const REFRESH_TOKEN_TTL_DAYS = process.env.REFRESH_TOKEN_TTL_DAYS
+  ? parseInt(process.env.REFRESH_TOKEN_TTL_DAYS)
+  : 30;
+
+
+// The subject is the user id, it stays the same when the email changes
+export function generateClientJWT(userId : string, sessionId : string) {
+  if (!userId || !sessionId) return;
   let payload = {
-    email : email,
+    sid : sessionId,
   };
   let token = jwt.sign(payload, JWT_SECRET + JWT_SECRET, {
     algorithm: "HS256",
-    expiresIn: "3h",
+    expiresIn: ACCESS_TOKEN_TTL,
+    subject: userId,
   });
   return token;
 }
@@ -21,9 +32,127 @@ export function generateClientJWT(email : string) {
 
 export function validateClientJWT(token: string) {
   try {
-    let result = jwt.verify(token, JWT_SECRET + JWT_SECRET);
-    return result as { email : string };
+    let result = jwt.verify(token, JWT_SECRET + JWT_SECRET) as {
+      sub : string,
+      sid : string
+    };
+    if (!result.sub || !result.sid) return null;
+    return result;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Verification tokens carry the time the mail was sent, a resend or a
+// successful verification makes every older token unusable.
+export function generateVerificationJWT(email: string, sentAt: Date) {
+  if (!email || !sentAt) return;
+  let payload = {
+    email: email,
+    purpose: "verify-email",
+    sentAt: sentAt.getTime(),
+  };
+  let token = jwt.sign(payload, JWT_SECRET + JWT_SECRET, {
+    algorithm: "HS256",
+    expiresIn: "24h",
+  });
+  return token;
+}
+
+export function validateVerificationJWT(token: string) {
+  try {
+    let result = jwt.verify(token, JWT_SECRET + JWT_SECRET) as {
+      email: string;
+      purpose: string;
+      sentAt: number;
+    };
+    if (result.purpose !== "verify-email") return null;
+    return result;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Issued by login when two-factor is on, only good for /2fa/verify
+export function generateMfaJWT(userId: string) {
+  if (!userId) return;
+  let payload = {
+    purpose: "mfa",
+  };
+  let token = jwt.sign(payload, JWT_SECRET + JWT_SECRET, {
+    algorithm: "HS256",
+    expiresIn: "5m",
+    subject: userId,
+  });
+  return token;
+}
+
+export function validateMfaJWT(token: string) {
+  try {
+    let result = jwt.verify(token, JWT_SECRET + JWT_SECRET) as {
+      sub: string;
+      purpose: string;
+    };
+    if (result.purpose !== "mfa") return null;
+    return result;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Bound to the address the user had when asking, so a link goes stale once
+// the email changes again
+export function generateEmailChangeJWT(
+  userId: string,
+  currentEmail: string,
+  newEmail: string
+) {
+  if (!userId || !currentEmail || !newEmail) return;
+  let payload = {
+    purpose: "change-email",
+    currentEmail: currentEmail,
+    newEmail: newEmail,
+  };
+  let token = jwt.sign(payload, JWT_SECRET + JWT_SECRET, {
+    algorithm: "HS256",
+    expiresIn: "24h",
+    subject: userId,
+  });
+  return token;
+}
+
+export function validateEmailChangeJWT(token: string) {
+  try {
+    let result = jwt.verify(token, JWT_SECRET + JWT_SECRET) as {
+      sub: string;
+      purpose: string;
+      currentEmail: string;
+      newEmail: string;
+    };
+    if (result.purpose !== "change-email") return null;
+    return result;
   } catch (error) {
     return null;
   }
 }
+
+// Opaque secret for refresh and password reset tokens, only its hash is stored
+export function generateRandomToken() {
+  return crypto.randomBytes(48).toString("hex");
+}
+
+export function hashToken(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+// Refresh tokens are opaque "<sessionId>.<secret>" strings
+export function buildRefreshToken(sessionId: string, secret: string) {
+  return `${sessionId}.${secret}`;
+}
+
+export function parseRefreshToken(refreshToken: string) {
+  if (!refreshToken || typeof refreshToken !== "string") return null;
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) return null;
+  return { sessionId, secret };
+}
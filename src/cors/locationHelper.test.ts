@@ -0,0 +1,76 @@
+import { boundingBox, calculateDistance, geoBox } from "./locationHelper";
+import { random, scatterAround } from "./testPoints";
+
+const inBox = (box: geoBox, lat: number, lon: number) =>
+  lat >= box.latMin &&
+  lat <= box.latMax &&
+  box.lonRanges.some((range) => lon >= range.min && lon <= range.max);
+
+const pointsAround = (
+  lat: number,
+  lon: number,
+  radiusKm: number,
+  count: number,
+  seed: number
+) =>
+  Array.from(
+    { length: count },
+    scatterAround(lat, lon, radiusKm, random(seed))
+  );
+
+const centres = [
+  { lat: 0, lon: 0 },
+  { lat: 45, lon: 179.9 },
+  { lat: -30, lon: -179.9 },
+  { lat: 0, lon: 179.99 },
+  { lat: 89.9, lon: 0 },
+  { lat: -89.9, lon: 120 },
+  { lat: 88, lon: 179.9 },
+  { lat: -87, lon: -179.9 },
+  { lat: 70, lon: -179.95 },
+];
+
+const radii = [1, 10, 100, 500];
+
+describe("boundingBox", () => {
+  it.each(centres)("holds every point within the radius of %o", (centre) => {
+    for (const radiusKm of radii) {
+      const box = boundingBox(centre.lat, centre.lon, radiusKm);
+      const points = pointsAround(centre.lat, centre.lon, radiusKm, 3000, radiusKm);
+      const within = points.filter(
+        (point) =>
+          calculateDistance(centre.lat, centre.lon, point.lat, point.lon) <=
+          radiusKm
+      );
+
+      expect(within.length).toBeGreaterThan(100);
+      expect(
+        within.filter((point) => !inBox(box, point.lat, point.lon))
+      ).toEqual([]);
+    }
+  });
+
+  it("splits the longitude range across the antimeridian", () => {
+    const box = boundingBox(45, 179.9, 50);
+    expect(box.lonRanges).toHaveLength(2);
+    expect(box.lonRanges[0].max).toBe(180);
+    expect(box.lonRanges[1].min).toBe(-180);
+
+    const west = boundingBox(-30, -179.9, 50);
+    expect(west.lonRanges).toHaveLength(2);
+  });
+
+  it("spans every longitude when the circle reaches a pole", () => {
+    const everywhere = [{ min: -180, max: 180 }];
+    expect(boundingBox(89.9, 0, 50).lonRanges).toEqual(everywhere);
+    expect(boundingBox(-89.9, 120, 50).lonRanges).toEqual(everywhere);
+    expect(boundingBox(89.9, 0, 50).latMax).toBe(90);
+  });
+
+  it("stays narrow away from the poles and the antimeridian", () => {
+    const box = boundingBox(48.85, 2.35, 10);
+    expect(box.lonRanges).toHaveLength(1);
+    expect(box.latMax - box.latMin).toBeLessThan(0.2);
+    expect(box.lonRanges[0].max - box.lonRanges[0].min).toBeLessThan(0.3);
+  });
+});
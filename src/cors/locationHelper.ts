@@ -22,3 +22,68 @@ export function calculateDistance(
 
   return R * c;
 }
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+export type geoBox = {
+  latMin: number;
+  latMax: number;
+  // Two ranges when the box crosses the antimeridian
+  lonRanges: { min: number; max: number }[];
+};
+
+// Smallest lat/lon box holding every point within radiusKm, used as an
+// indexed prefilter before calculateDistance. Near a pole the box spans all
+// longitudes, across the antimeridian the longitude range is split in two.
+export function boundingBox(
+  lat: number,
+  lon: number,
+  radiusKm: number
+): geoBox {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const latRad = toRadians(lat);
+  const latMin = latRad - angular;
+  const latMax = latRad + angular;
+
+  if (latMin <= -Math.PI / 2 || latMax >= Math.PI / 2) {
+    return {
+      latMin: Math.max(toDegrees(latMin), -90),
+      latMax: Math.min(toDegrees(latMax), 90),
+      lonRanges: [{ min: -180, max: 180 }],
+    };
+  }
+
+  const ratio = Math.sin(angular) / Math.cos(latRad);
+  if (ratio >= 1) {
+    return {
+      latMin: toDegrees(latMin),
+      latMax: toDegrees(latMax),
+      lonRanges: [{ min: -180, max: 180 }],
+    };
+  }
+
+  const deltaLon = toDegrees(Math.asin(ratio));
+  const lonMin = lon - deltaLon;
+  const lonMax = lon + deltaLon;
+
+  let lonRanges = [{ min: lonMin, max: lonMax }];
+  if (lonMin < -180) {
+    lonRanges = [
+      { min: lonMin + 360, max: 180 },
+      { min: -180, max: lonMax },
+    ];
+  } else if (lonMax > 180) {
+    lonRanges = [
+      { min: lonMin, max: 180 },
+      { min: -180, max: lonMax - 360 },
+    ];
+  }
+
+  return {
+    latMin: toDegrees(latMin),
+    latMax: toDegrees(latMax),
+    lonRanges,
+  };
+}
@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+// Size of the cells coarse positions are snapped to, 0 turns them off
+export const LOCATION_GRID_KM = process.env.LOCATION_GRID_KM
+  ? parseFloat(process.env.LOCATION_GRID_KM)
+  : 5;
+
+const KM_PER_DEGREE = 111.32;
+
+// Exact distances would let anyone triangulate a user from three spots, so
+// only an upper bound that gets coarser with distance leaves the server
+export const distanceBucket = (distanceKm: number) => {
+  if (distanceKm < 1) return 1;
+  if (distanceKm < 10) return Math.ceil(distanceKm);
+  if (distanceKm < 50) return Math.ceil(distanceKm / 5) * 5;
+  return Math.ceil(distanceKm / 10) * 10;
+};
+
+// Fraction of a cell in [0.1, 0.9), always the same for the same user
+const stableOffset = (userId: string, axis: string) => {
+  const digest = crypto.createHash("sha256").update(`${userId}:${axis}`).digest();
+  return 0.1 + (digest.readUInt32BE(0) / 0x100000000) * 0.8;
+};
+
+// The pin is placed inside the user's grid cell at a per-user offset. It does
+// not move while the user stays in the cell, so repeated requests can not be
+// averaged back to the real position, and users in one cell do not stack up.
+export const coarsePosition = (userId: string, lat: number, lon: number) => {
+  if (!(LOCATION_GRID_KM > 0)) return null;
+
+  const latCell = LOCATION_GRID_KM / KM_PER_DEGREE;
+  const row = Math.floor(lat / latCell);
+
+  // A degree of longitude shrinks with cos(lat), so the cells get wider in
+  // degrees towards the poles to stay LOCATION_GRID_KM wide. The width comes
+  // from the row, not the exact latitude, so the grid of a row never moves.
+  const rowLat = Math.min(89.9, Math.abs((row + 0.5) * latCell));
+  const lonCell = Math.min(360, latCell / Math.cos(rowLat * (Math.PI / 180)));
+
+  const snap = (value: number, cell: number, axis: string) =>
+    (Math.floor(value / cell) + stableOffset(userId, axis)) * cell;
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  const wrap = (value: number) => ((((value + 180) % 360) + 360) % 360) - 180;
+
+  return {
+    lat: round(Math.max(-90, Math.min(90, snap(lat, latCell, "lat")))),
+    lon: round(wrap(snap(lon, lonCell, "lon"))),
+  };
+};
@@ -0,0 +1,88 @@
+import { attemptRecord, attemptStore } from "../interface/attemptStore";
+import { createMemoryAttemptStore } from "./attemptStore";
+
+const envInt = (name: string, fallback: number) =>
+  process.env[name] ? parseInt(process.env[name]) : fallback;
+
+// Failures allowed before any delay kicks in
+const FREE_ATTEMPTS = envInt("LOGIN_FREE_ATTEMPTS", 3);
+const BACKOFF_BASE_SECONDS = envInt("LOGIN_BACKOFF_BASE_SECONDS", 1);
+const ACCOUNT_LOCKOUT_THRESHOLD = envInt("LOGIN_LOCKOUT_THRESHOLD", 10);
+const IP_LOCKOUT_THRESHOLD = envInt("LOGIN_IP_LOCKOUT_THRESHOLD", 50);
+const LOCKOUT_MINUTES = envInt("LOGIN_LOCKOUT_MINUTES", 15);
+// Counters are forgotten after this long without a failure
+const WINDOW_MINUTES = envInt("LOGIN_ATTEMPT_WINDOW_MINUTES", 60);
+
+let store: attemptStore = createMemoryAttemptStore();
+
+// Swap the store, e.g. for one shared between server instances
+export const setAttemptStore = (newStore: attemptStore) => {
+  store = newStore;
+};
+
+const accountKey = (email: string) => `login:account:${email.toLowerCase()}`;
+const ipKey = (ip: string) => `login:ip:${ip}`;
+
+const blockDuration = (failures: number, threshold: number) => {
+  const lockoutMs = LOCKOUT_MINUTES * 60 * 1000;
+  if (failures >= threshold) return lockoutMs;
+  if (failures <= FREE_ATTEMPTS) return 0;
+  const backoffMs =
+    BACKOFF_BASE_SECONDS * 1000 * Math.pow(2, failures - FREE_ATTEMPTS - 1);
+  return Math.min(backoffMs, lockoutMs);
+};
+
+const secondsUntil = (record: attemptRecord | null) => {
+  if (!record) return 0;
+  return Math.max(0, Math.ceil((record.blockedUntil - Date.now()) / 1000));
+};
+
+const registerFailure = async (key: string, threshold: number) => {
+  const now = Date.now();
+  const record = (await store.get(key)) || {
+    failures: 0,
+    blockedUntil: 0,
+    lastFailureAt: 0,
+  };
+
+  record.failures += 1;
+  record.lastFailureAt = now;
+  record.blockedUntil = now + blockDuration(record.failures, threshold);
+
+  await store.set(
+    key,
+    record,
+    Math.max(WINDOW_MINUTES * 60 * 1000, record.blockedUntil - now)
+  );
+
+  return record;
+};
+
+// Seconds the caller has to wait before trying again, 0 when allowed
+export const getLoginRetryAfter = async (email: string, ip: string) => {
+  const [account, address] = await Promise.all([
+    store.get(accountKey(email)),
+    store.get(ipKey(ip)),
+  ]);
+  return Math.max(secondsUntil(account), secondsUntil(address));
+};
+
+export const recordLoginFailure = async (email: string, ip: string) => {
+  const [account, address] = await Promise.all([
+    registerFailure(accountKey(email), ACCOUNT_LOCKOUT_THRESHOLD),
+    registerFailure(ipKey(ip), IP_LOCKOUT_THRESHOLD),
+  ]);
+
+  return {
+    // Blocked attempts are rejected before they are recorded, so every
+    // failure past the threshold starts a new lockout
+    accountLocked: account.failures >= ACCOUNT_LOCKOUT_THRESHOLD,
+    retryAfter: Math.max(secondsUntil(account), secondsUntil(address)),
+  };
+};
+
+// The per address counter is kept, otherwise an attacker could clear it by
+// logging into an account of their own between guesses
+export const recordLoginSuccess = async (email: string) => {
+  await store.delete(accountKey(email));
+};
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import logger from "./logger";
+import { dirPath } from "../../path";
+import { mailMessage, mailTransport } from "../interface/mailTransport";
+
+const MAIL_FROM = process.env.MAIL_FROM
+  ? process.env.MAIL_FROM
+  : "no-reply@nearbyconnect.local";
+
+// Base url used for links inside mails
+export const APP_URL = process.env.APP_URL
+  ? process.env.APP_URL
+  : `http://localhost:${process.env.SERVER_PORT || 8080}`;
+
+// Base url of the web app, for mail links to pages this server does not
+// serve. The password reset mail links to `/reset-password?token=...` there,
+// that page posts the token and the new password to /client/auth/reset.
+export const FRONTEND_URL = process.env.FRONTEND_URL
+  ? process.env.FRONTEND_URL
+  : APP_URL;
+
+// Writes the message to the log only, useful while developing
+export const createConsoleTransport = (): mailTransport => ({
+  name: "console",
+  send: async (message: mailMessage) => {
+    logger.info(
+      `From: ${MAIL_FROM}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+      { section: "mailer.console" }
+    );
+  },
+});
+
+// Drops every message as a .eml file in `dir`, so it can be opened by any mail client
+export const createFileTransport = (dir: string): mailTransport => ({
+  name: "file",
+  send: async (message: mailMessage) => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const content = [
+      `From: ${MAIL_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.text,
+    ].join("\r\n");
+    const filePath = path.join(dir, `${Date.now()}-${uuidv4()}.eml`);
+    await fs.promises.writeFile(filePath, content);
+    logger.info(`Mail to ${message.to} written to ${filePath}`, {
+      section: "mailer.file",
+    });
+  },
+});
+
+let transport: mailTransport =
+  process.env.MAIL_TRANSPORT === "file"
+    ? createFileTransport(
+        process.env.MAIL_DIR
+          ? process.env.MAIL_DIR
+          : path.join(dirPath, "mail")
+      )
+    : createConsoleTransport();
+
+// Swap the transport, e.g. for a real SMTP implementation
+export const setMailTransport = (newTransport: mailTransport) => {
+  transport = newTransport;
+};
+
+export const sendMail = async (to: string, subject: string, text: string) => {
+  try {
+    await transport.send({ to, subject, text });
+    return {
+      success: true,
+      message: "Mail sent successfully",
+    };
+  } catch (error) {
+    logger.error(`Error sending mail to ${to}, Error: ${error.message}`, {
+      section: "mailer.sendMail",
+      transport: transport.name,
+    });
+
+    return {
+      success: false,
+      message: "Something went wrong while sending the mail",
+    };
+  }
+};
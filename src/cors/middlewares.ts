@@ -1,7 +1,15 @@
 import { NextFunction, Response, Request } from "express";
 import { validateClientJWT } from "./jwt";
 import { protectedRequest } from "../interface/protectedRequest";
-import { getUserByEmail } from "../controllers/users";
+import { getUserById, touchLastActive } from "../controllers/users";
+import {
+  ACTIVITY_THROTTLE_SECONDS,
+  broadcastPresence,
+  isConnected,
+  onlineSince,
+} from "./presence";
+import { getActiveSession } from "../controllers/sessions";
+import { quotaKind } from "../controllers/quotas";
 
 export const protectClient = async (
   req: protectedRequest,
@@ -30,16 +38,104 @@ export const protectClient = async (
     return;
   }
 
-  let requestInfo : any = await getUserByEmail(user.email);
+  let sessionStatus = await getActiveSession(user.sid);
 
-  if (!requestInfo) {
+  if (!sessionStatus.success) {
     res.status(401);
     res.json({ message: "Not Authorized" });
     return;
   }
 
-  req.user = {
-    email : user.email
+  let requestInfo = await getUserById(user.sub);
+
+  if (
+    !requestInfo ||
+    !requestInfo.success ||
+    requestInfo.data.id !== sessionStatus.data.userId
+  ) {
+    res.status(401);
+    res.json({ message: "Not Authorized" });
+    return;
   }
+
+  req.user = requestInfo.data;
+  req.sessionId = user.sid;
+  recordActivity(req.user.id, req.user.lastActiveAt);
   next();
-};
\ No newline at end of file
+};
+
+// Not awaited, the request does not wait for the write. The user was just
+// loaded, so a recent lastActiveAt skips the round trip to the database.
+// Matches only hear about it when the user was offline before this call.
+const recordActivity = (userId: string, lastActiveAt: Date | null) => {
+  if (
+    lastActiveAt &&
+    Date.now() - lastActiveAt.getTime() < ACTIVITY_THROTTLE_SECONDS * 1000
+  ) {
+    return;
+  }
+
+  const wasOffline =
+    !isConnected(userId) && (!lastActiveAt || lastActiveAt < onlineSince());
+
+  touchLastActive(userId).then((status) => {
+    if (status.success && status.data && wasOffline) {
+      broadcastPresence(userId, true);
+    }
+  });
+};
+
+export const protectAdmin = async (
+  req: protectedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  await protectClient(req, res, () => {
+    if (req.user.role !== "ADMIN") {
+      res.status(403);
+      res.json({ message: "Forbidden" });
+      return;
+    }
+    next();
+  });
+};
+
+// Must run after protectClient
+export const requireVerified = (
+  req: protectedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || !req.user.emailVerifiedAt) {
+    res.status(403);
+    res.json({ message: "Email address is not verified" });
+    return;
+  }
+  next();
+};
+
+const quotaErrors = {
+  likes: { code: "DAILY_LIKE_LIMIT_REACHED", noun: "likes" },
+  dislikes: { code: "DAILY_DISLIKE_LIMIT_REACHED", noun: "dislikes" },
+};
+
+// Answers 429 for a like or dislike the quota did not allow, see withinQuota
+export const rejectOverQuota = (
+  res: Response,
+  kind: quotaKind,
+  { limit, resetsAt }: { limit: number; resetsAt: Date }
+) => {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((resetsAt.getTime() - Date.now()) / 1000)
+  );
+  res.setHeader("Retry-After", retryAfter.toString());
+  res.status(429);
+  res.json({
+    success: false,
+    code: quotaErrors[kind].code,
+    message: `You used all ${limit} ${quotaErrors[kind].noun} for today`,
+    limit,
+    resetsAt,
+  });
+};
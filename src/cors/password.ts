@@ -1,9 +1,80 @@
+import fs from "fs";
+import path from "path";
 import bcrypt from "bcrypt";
+import logger from "./logger";
+import { dirPath } from "../../path";
+
+export const BCRYPT_COST = process.env.BCRYPT_COST
+  ? parseInt(process.env.BCRYPT_COST)
+  : 12;
+
+export const PASSWORD_MIN_LENGTH = process.env.PASSWORD_MIN_LENGTH
+  ? parseInt(process.env.PASSWORD_MIN_LENGTH)
+  : 8;
+
+// bcrypt ignores everything after 72 bytes
+const PASSWORD_MAX_BYTES = 72;
+
+const DENYLIST_PATH = process.env.PASSWORD_DENYLIST_PATH
+  ? process.env.PASSWORD_DENYLIST_PATH
+  : path.join(dirPath, "data", "breached-passwords.txt");
+
+let denylist: Set<string> | null = null;
+
+// One password per line, loaded once and compared case-insensitively
+const getDenylist = () => {
+  if (denylist) return denylist;
+  try {
+    denylist = new Set(
+      fs
+        .readFileSync(DENYLIST_PATH, "utf8")
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter(Boolean)
+    );
+  } catch (error) {
+    logger.warn(`Password denylist not loaded from ${DENYLIST_PATH}`, {
+      section: "password.getDenylist",
+    });
+    denylist = new Set();
+  }
+  return denylist;
+};
 
 export const hashPassword = (password: string) => {
-  return bcrypt.hashSync(password, 10);
+  return bcrypt.hash(password, BCRYPT_COST);
 };
 
 export const comparePassword = (password: string, hash: string) => {
-  return bcrypt.compareSync(password, hash);
+  return bcrypt.compare(password, hash);
+};
+
+// True when the hash was made with a lower cost than configured
+export const needsRehash = (hash: string) => {
+  try {
+    return bcrypt.getRounds(hash) < BCRYPT_COST;
+  } catch (error) {
+    return true;
+  }
+};
+
+// express-validator custom validator for new passwords
+export const passwordPolicy = (password: string) => {
+  if (typeof password !== "string") {
+    throw new Error("Password must be a string");
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    throw new Error(
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`
+    );
+  }
+  if (Buffer.byteLength(password, "utf8") > PASSWORD_MAX_BYTES) {
+    throw new Error(`Password must be at most ${PASSWORD_MAX_BYTES} bytes`);
+  }
+  if (getDenylist().has(password.toLowerCase())) {
+    throw new Error(
+      "This password appears in a list of breached passwords, choose another one"
+    );
+  }
+  return true;
 };
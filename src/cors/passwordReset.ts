@@ -0,0 +1,35 @@
+import logger from "./logger";
+import { FRONTEND_URL, sendMail } from "./mailer";
+import { getUserByEmail } from "../controllers/users";
+import {
+  RESET_TOKEN_TTL_MINUTES,
+  createPasswordReset,
+} from "../controllers/passwordResets";
+
+// Does nothing visible for unknown emails, callers must not leak the outcome
+export const requestPasswordReset = async (email: string) => {
+  const getStatus = await getUserByEmail(email);
+
+  if (!getStatus.success) {
+    logger.info(`Password reset requested for unknown email: ${email}`, {
+      section: "passwordReset.requestPasswordReset",
+    });
+    return;
+  }
+
+  const resetStatus = await createPasswordReset(getStatus.data.id);
+
+  if (!resetStatus.success) {
+    return;
+  }
+
+  const link = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(
+    resetStatus.data.token
+  )}`;
+
+  await sendMail(
+    email,
+    "Reset your NearbyConnect password",
+    `Hi ${getStatus.data.name},\n\nSomeone asked to reset the password of your account. If it was you, open the link below:\n\n${link}\n\nThe link is valid for ${RESET_TOKEN_TTL_MINUTES} minutes and can be used once. If you did not ask for it, you can ignore this mail.`
+  );
+};
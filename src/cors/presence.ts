@@ -0,0 +1,50 @@
+import { clients, sendToUser } from "./socketClients";
+import { getMatchedUserIds } from "../controllers/likes";
+
+// A REST call only writes lastActiveAt when the stored value is older
+export const ACTIVITY_THROTTLE_SECONDS = process.env.ACTIVITY_THROTTLE_SECONDS
+  ? parseInt(process.env.ACTIVITY_THROTTLE_SECONDS)
+  : 60;
+
+export const ONLINE_WINDOW_MINUTES = process.env.ONLINE_WINDOW_MINUTES
+  ? parseInt(process.env.ONLINE_WINDOW_MINUTES)
+  : 5;
+
+export const RECENT_WINDOW_HOURS = process.env.RECENT_WINDOW_HOURS
+  ? parseInt(process.env.RECENT_WINDOW_HOURS)
+  : 24;
+
+export type activityLevel = "online" | "recently";
+
+export const onlineSince = (now = new Date()) =>
+  new Date(now.getTime() - ONLINE_WINDOW_MINUTES * 60 * 1000);
+
+export const recentlySince = (now = new Date()) =>
+  new Date(now.getTime() - RECENT_WINDOW_HOURS * 60 * 60 * 1000);
+
+export const isConnected = (userId: string) => clients.has(userId);
+
+export const connectedUserIds = () => Array.from(clients.keys());
+
+// Only the coarse status is shown to other users, never the timestamp
+export const activityStatus = (
+  userId: string,
+  lastActiveAt?: Date | null,
+  now = new Date()
+): activityLevel | null => {
+  if (isConnected(userId)) return "online";
+  if (!lastActiveAt) return null;
+  if (lastActiveAt >= onlineSince(now)) return "online";
+  if (lastActiveAt >= recentlySince(now)) return "recently";
+  return null;
+};
+
+// Tells everyone the user matched with that they came online or went away
+export const broadcastPresence = async (userId: string, online: boolean) => {
+  const matchStatus = await getMatchedUserIds(userId);
+  if (!matchStatus.success) return;
+
+  for (const matchId of matchStatus.data) {
+    sendToUser(matchId, "presence", { userId, online });
+  }
+};
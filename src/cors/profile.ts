@@ -0,0 +1,70 @@
+import { body } from "express-validator";
+import { Gender } from "@prisma/client";
+import { profileFields } from "../interface/profileFields";
+import { isValidTimeZone } from "./quota";
+
+export const MIN_AGE = 18;
+export const MAX_PROMPTS = 3;
+
+export const computeAge = (birthdate?: Date | null, now = new Date()) => {
+  if (!birthdate) return null;
+  let age = now.getUTCFullYear() - birthdate.getUTCFullYear();
+  const beforeBirthday =
+    now.getUTCMonth() < birthdate.getUTCMonth() ||
+    (now.getUTCMonth() === birthdate.getUTCMonth() &&
+      now.getUTCDate() < birthdate.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+};
+
+// Shared by register, update and the admin edit, every field is optional
+// and null clears it
+export const profileValidators = [
+  body("bio").optional({ values: "null" }).isString().isLength({ max: 500 }),
+  body("birthdate")
+    .optional({ values: "null" })
+    .isISO8601({ strict: true })
+    .custom((value: string) => {
+      const age = computeAge(new Date(value));
+      if (age < MIN_AGE || age > 120) {
+        throw new Error(`You must be at least ${MIN_AGE} years old`);
+      }
+      return true;
+    }),
+  body("gender").optional({ values: "null" }).isIn(Object.values(Gender)),
+  body("pronouns")
+    .optional({ values: "null" })
+    .isString()
+    .isLength({ max: 30 }),
+  body("occupation")
+    .optional({ values: "null" })
+    .isString()
+    .isLength({ max: 100 }),
+  body("timezone")
+    .optional({ values: "null" })
+    .isString()
+    .custom((value: string) => isValidTimeZone(value))
+    .withMessage("Unknown time zone"),
+  body("prompts").optional().isArray({ max: MAX_PROMPTS }),
+  body("prompts.*.question").isString().isLength({ min: 1, max: 100 }),
+  body("prompts.*.answer").isString().isLength({ min: 1, max: 300 }),
+];
+
+export const pickProfileFields = (input: any): profileFields => ({
+  bio: input.bio,
+  birthdate:
+    input.birthdate === null
+      ? null
+      : input.birthdate
+      ? new Date(input.birthdate)
+      : undefined,
+  gender: input.gender,
+  pronouns: input.pronouns,
+  occupation: input.occupation,
+  timezone: input.timezone,
+  prompts: Array.isArray(input.prompts)
+    ? input.prompts.map((prompt) => ({
+        question: prompt.question,
+        answer: prompt.answer,
+      }))
+    : undefined,
+});
@@ -0,0 +1,93 @@
+// 0 turns a limit off
+export const DAILY_LIKE_LIMIT = process.env.DAILY_LIKE_LIMIT
+  ? parseInt(process.env.DAILY_LIKE_LIMIT)
+  : 100;
+
+export const DAILY_DISLIKE_LIMIT = process.env.DAILY_DISLIKE_LIMIT
+  ? parseInt(process.env.DAILY_DISLIKE_LIMIT)
+  : 300;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Milliseconds the zone is ahead of UTC at `at`. Without a stored zone the
+// offset is guessed from the longitude, 15 degrees per hour.
+const utcOffset = (at: Date, timeZone: string | null, lon: number) => {
+  if (!timeZone) return Math.round(lon / 15) * 60 * 60 * 1000;
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: string) =>
+    parseInt(parts.find((entry) => entry.type === type).value);
+
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+};
+
+// A quota day lasts at least this long, 23 hours so the short DST day fits
+const MIN_QUOTA_DAY_HOURS = 23;
+
+// Start and end of the user's current local day as UTC instants. The offset
+// is looked up again at both edges so days around a DST switch come out right.
+export const localDayBounds = (
+  now: Date,
+  timeZone: string | null,
+  lon: number
+) => {
+  const local = new Date(now.getTime() + utcOffset(now, timeZone, lon));
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  const edge = (localMidnight: number) => {
+    const guess = localMidnight - utcOffset(now, timeZone, lon);
+    return new Date(localMidnight - utcOffset(new Date(guess), timeZone, lon));
+  };
+
+  return {
+    start: edge(Date.UTC(year, month, day)),
+    end: edge(Date.UTC(year, month, day + 1)),
+  };
+};
+
+// The quota day after `previousEnd`. It never starts before the previous one
+// ended, and a local midnight that comes sooner than MIN_QUOTA_DAY_HOURS after
+// the start is skipped. Otherwise moving to a zone where midnight is just
+// about to pass would reset the limits at will.
+export const nextQuotaDay = (
+  previousEnd: Date | null,
+  now: Date,
+  timeZone: string | null,
+  lon: number
+) => {
+  const day = localDayBounds(now, timeZone, lon);
+  const start =
+    previousEnd && previousEnd > day.start ? previousEnd : day.start;
+
+  const length = day.end.getTime() - start.getTime();
+  if (length >= MIN_QUOTA_DAY_HOURS * 60 * 60 * 1000) {
+    return { start, end: day.end };
+  }
+  return { start, end: localDayBounds(day.end, timeZone, lon).end };
+};
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { ONLINE_WINDOW_MINUTES } from "./presence";
+
+// Relative weight of every signal in the recommended sort, they do not have
+// to add up to 1
+export const SCORE_WEIGHTS = {
+  distance: process.env.SCORE_WEIGHT_DISTANCE
+    ? parseFloat(process.env.SCORE_WEIGHT_DISTANCE)
+    : 0.35,
+  interests: process.env.SCORE_WEIGHT_INTERESTS
+    ? parseFloat(process.env.SCORE_WEIGHT_INTERESTS)
+    : 0.25,
+  activity: process.env.SCORE_WEIGHT_ACTIVITY
+    ? parseFloat(process.env.SCORE_WEIGHT_ACTIVITY)
+    : 0.15,
+  completeness: process.env.SCORE_WEIGHT_COMPLETENESS
+    ? parseFloat(process.env.SCORE_WEIGHT_COMPLETENESS)
+    : 0.1,
+  popularity: process.env.SCORE_WEIGHT_POPULARITY
+    ? parseFloat(process.env.SCORE_WEIGHT_POPULARITY)
+    : 0.15,
+};
+
+// Extra weight for users with few profile views, so new accounts get shown
+export const EXPLORATION_WEIGHT = process.env.EXPLORATION_WEIGHT
+  ? parseFloat(process.env.EXPLORATION_WEIGHT)
+  : 0.15;
+
+export const EXPLORATION_VIEW_THRESHOLD = process.env.EXPLORATION_VIEW_THRESHOLD
+  ? parseInt(process.env.EXPLORATION_VIEW_THRESHOLD)
+  : 20;
+
+// Activity fades out over a week
+const ACTIVITY_DECAY_HOURS = 7 * 24;
+
+export type scoreInput = {
+  viewerId: string;
+  candidateId: string;
+  distanceKm: number;
+  radiusKm: number;
+  overlapScore: number;
+  connected: boolean;
+  lastActiveAt: Date | null;
+  completeness: number;
+  likesReceived: number;
+  dislikesReceived: number;
+  viewsReceived: number;
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Share of the optional profile parts that are filled in. Lists are only
+// counted, the feed does not load them for every candidate.
+export const profileCompleteness = (user: {
+  bio?: string | null;
+  birthdate?: Date | null;
+  gender?: string | null;
+  pronouns?: string | null;
+  occupation?: string | null;
+  _count?: { prompts?: number; tags?: number; images?: number };
+}) => {
+  const parts = [
+    !!user.bio,
+    !!user.birthdate,
+    !!user.gender,
+    !!user.pronouns,
+    !!user.occupation,
+    (user._count?.prompts || 0) > 0,
+    (user._count?.tags || 0) > 0,
+    (user._count?.images || 0) > 0,
+  ];
+  return parts.filter(Boolean).length / parts.length;
+};
+
+// Same value for a viewer and candidate for the whole UTC day of `now`, so
+// the order shuffles from one day to the next
+const dailyJitter = (viewerId: string, candidateId: string, now: Date) => {
+  const digest = crypto
+    .createHash("sha256")
+    .update(`${viewerId}:${candidateId}:${now.toISOString().slice(0, 10)}`)
+    .digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+};
+
+export const scoreCandidate = (input: scoreInput, now = new Date()) => {
+  const hoursIdle = input.lastActiveAt
+    ? (now.getTime() - input.lastActiveAt.getTime()) / (60 * 60 * 1000)
+    : null;
+
+  const signals = {
+    distance: clamp(1 - input.distanceKm / input.radiusKm),
+    interests: clamp(input.overlapScore),
+    activity: input.connected
+      ? 1
+      : hoursIdle === null
+      ? 0
+      : hoursIdle <= ONLINE_WINDOW_MINUTES / 60
+      ? 1
+      : clamp(1 - hoursIdle / ACTIVITY_DECAY_HOURS),
+    completeness: clamp(input.completeness),
+    // Share of likes among everyone who decided on the user, most likes come
+    // straight from the feed without a profile view. Smoothed so a single
+    // like does not top the feed.
+    popularity: clamp(
+      (input.likesReceived + 1) /
+        (input.likesReceived + input.dislikesReceived + 2)
+    ),
+  };
+
+  const components = Object.fromEntries(
+    Object.entries(signals).map(([name, value]) => [
+      name,
+      {
+        value: round(value),
+        weight: SCORE_WEIGHTS[name],
+        contribution: round(value * SCORE_WEIGHTS[name]),
+      },
+    ])
+  );
+
+  const novelty = clamp(1 - input.viewsReceived / EXPLORATION_VIEW_THRESHOLD);
+  const exploration = round(
+    EXPLORATION_WEIGHT *
+      novelty *
+      dailyJitter(input.viewerId, input.candidateId, now)
+  );
+
+  const score = round(
+    Object.values(components).reduce(
+      (total, component) => total + component.contribution,
+      0
+    ) + exploration
+  );
+
+  return { score, components, exploration };
+};
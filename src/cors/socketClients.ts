@@ -0,0 +1,24 @@
+import WebSocket from "ws";
+import logger from "./logger";
+
+// Open WebSocket connections by user id, filled by the handshake in index.ts
+export const clients = new Map<string, WebSocket>();
+
+// Fire and forget, nothing is queued for users who are not connected
+export const sendToUser = (userId: string, type: string, data: any) => {
+  const socket = clients.get(userId);
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+
+  try {
+    socket.send(JSON.stringify({ type, data }));
+    return true;
+  } catch (error) {
+    logger.error("Failed to send WebSocket message:", {
+      section: "socketClients.sendToUser",
+      userId,
+      type,
+      error: error.message,
+    });
+    return false;
+  }
+};
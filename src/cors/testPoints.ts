@@ -0,0 +1,34 @@
+// Shared by the location tests, not used by the application
+
+// Small seeded generator so a failing point can be reproduced
+export const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const wrapLon = (lon: number) =>
+  ((((lon + 180) % 360) + 360) % 360) - 180;
+
+// Returns a function giving points scattered around the centre, a bit beyond
+// the radius so both sides of the edge are covered. Longitudes are wrapped
+// like stored coordinates.
+export const scatterAround = (
+  lat: number,
+  lon: number,
+  radiusKm: number,
+  next: () => number
+) => {
+  const latSpread = (radiusKm * 1.5) / 111 + 0.01;
+  const edgeLat = Math.min(Math.abs(lat) + latSpread, 90);
+  const lonSpread = Math.min(
+    180,
+    latSpread / Math.max(Math.cos((edgeLat * Math.PI) / 180), 0.01)
+  );
+
+  return () => ({
+    lat: Math.max(-90, Math.min(90, lat + (next() * 2 - 1) * latSpread)),
+    lon: wrapLon(lon + (next() * 2 - 1) * lonSpread),
+  });
+};
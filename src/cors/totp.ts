@@ -0,0 +1,88 @@
+import crypto from "crypto";
+
+// RFC 6238 with the defaults every authenticator app understands
+const DIGITS = 6;
+const PERIOD_SECONDS = 30;
+const ISSUER = "NearbyConnect";
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter % 0x100000000, 4);
+  const digest = crypto.createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % Math.pow(10, DIGITS)).toString().padStart(DIGITS, "0");
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (email: string, secret: string) => {
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(
+    ISSUER
+  )}&algorithm=SHA1&digits=${DIGITS}&period=${PERIOD_SECONDS}`;
+};
+
+// Returns the time step the code belongs to, or null. One step of clock drift
+// is accepted on either side.
+export const verifyTotp = (secret: string, code: string, window = 1) => {
+  if (!secret || !code || !/^\d+$/.test(code) || code.length !== DIGITS) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / PERIOD_SECONDS);
+  for (let drift = -window; drift <= window; drift++) {
+    const candidate = Buffer.from(hotp(key, currentStep + drift));
+    if (crypto.timingSafeEqual(candidate, Buffer.from(code))) {
+      return currentStep + drift;
+    }
+  }
+  return null;
+};
+
+export const generateRecoveryCodes = (count = 10) =>
+  Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+export const normalizeRecoveryCode = (code: string) =>
+  code.trim().toLowerCase().replace(/[^a-f0-9]/g, "");
@@ -0,0 +1,24 @@
+export const TRAVEL_MAX_DAYS = process.env.TRAVEL_MAX_DAYS
+  ? parseInt(process.env.TRAVEL_MAX_DAYS)
+  : 30;
+
+type travelFields = {
+  travelLat?: number | null;
+  travelLon?: number | null;
+  travelUntil?: Date | null;
+};
+
+type travelRecord = travelFields & { lat: number; lon: number };
+
+export const isTravelling = (user: travelFields, now = new Date()) =>
+  user.travelLat != null &&
+  user.travelLon != null &&
+  !!user.travelUntil &&
+  user.travelUntil > now;
+
+// Where the user is placed for discovery. An expired travel location is
+// simply ignored, so nothing has to run when it ends.
+export const effectiveLocation = (user: travelRecord, now = new Date()) =>
+  isTravelling(user, now)
+    ? { lat: user.travelLat, lon: user.travelLon, travelling: true }
+    : { lat: user.lat, lon: user.lon, travelling: false };
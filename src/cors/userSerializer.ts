@@ -0,0 +1,141 @@
+import { computeAge } from "./profile";
+import { serializeTag } from "./interests";
+import { isTravelling } from "./travel";
+import { activityStatus } from "./presence";
+import { reverseGeocode } from "./geocoding";
+
+// Every user object that leaves the API goes through one of these views.
+// Fields are copied one by one, so a new column is private until it is
+// added here on purpose.
+
+type userRecord = {
+  id: string;
+  name: string;
+  email?: string;
+  lat?: number;
+  lon?: number;
+  role?: string;
+  emailVerifiedAt?: Date | null;
+  totpEnabledAt?: Date | null;
+  images?: { id: string; filename: string }[];
+  bio?: string | null;
+  birthdate?: Date | null;
+  gender?: string | null;
+  pronouns?: string | null;
+  occupation?: string | null;
+  prompts?: { question: string; answer: string }[];
+  tags?: { slug: string; name: string }[];
+  travelLat?: number | null;
+  travelLon?: number | null;
+  travelUntil?: Date | null;
+  lastActiveAt?: Date | null;
+  timezone?: string | null;
+  hideDistance?: boolean;
+  incognito?: boolean;
+  // Worked out by the controllers, see withLocationLabel
+  locationLabel?: string | null;
+  // Only set on nearby feed entries, see findNearbyUsers
+  sharedTags?: { slug: string; name: string }[];
+  overlapScore?: number;
+  travelling?: boolean;
+  distanceKm?: number | null;
+  approximateLocation?: { lat: number; lon: number } | null;
+  scoreBreakdown?: {
+    score: number;
+    components: Record<
+      string,
+      { value: number; weight: number; contribution: number }
+    >;
+    exploration: number;
+  } | null;
+  counts?: Record<string, number>;
+};
+
+export const serializeImage = (image: { id: string; filename: string }) => ({
+  id: image.id,
+  filename: image.filename,
+});
+
+const serializeImages = (user: userRecord) =>
+  (user.images || []).map(serializeImage);
+
+// The birthdate itself stays private, others only see the age
+const serializeProfile = (user: userRecord) => ({
+  bio: user.bio ?? null,
+  age: computeAge(user.birthdate),
+  gender: user.gender ?? null,
+  pronouns: user.pronouns ?? null,
+  occupation: user.occupation ?? null,
+  prompts: (user.prompts || []).map((prompt) => ({
+    question: prompt.question,
+    answer: prompt.answer,
+  })),
+  tags: (user.tags || []).map(serializeTag),
+});
+
+// The authenticated user looking at their own account
+export const serializeSelf = (user: userRecord) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  lat: user.lat,
+  lon: user.lon,
+  role: user.role,
+  emailVerified: !!user.emailVerifiedAt,
+  twoFactorEnabled: !!user.totpEnabledAt,
+  timezone: user.timezone ?? null,
+  hideDistance: !!user.hideDistance,
+  incognito: !!user.incognito,
+  locationLabel: reverseGeocode(user.lat, user.lon),
+  travel: isTravelling(user)
+    ? {
+        lat: user.travelLat,
+        lon: user.travelLon,
+        locationLabel: reverseGeocode(user.travelLat, user.travelLon),
+        until: user.travelUntil,
+      }
+    : null,
+  birthdate: user.birthdate ?? null,
+  ...serializeProfile(user),
+  images: serializeImages(user),
+});
+
+// Anybody else looking at the profile. Coordinates never get here, the
+// controllers turn them into locationLabel first.
+export const serializeOtherUser = (user: userRecord) => ({
+  id: user.id,
+  name: user.name,
+  activity: activityStatus(user.id, user.lastActiveAt),
+  locationLabel: user.locationLabel ?? null,
+  ...serializeProfile(user),
+  images: serializeImages(user),
+});
+
+// A card in the nearby feed, with what the viewer has in common. The
+// distance is already bucketed and the position snapped to a grid cell.
+export const serializeNearbyUser = (user: userRecord) => ({
+  ...serializeOtherUser(user),
+  sharedTags: (user.sharedTags || []).map(serializeTag),
+  overlapScore: user.overlapScore ?? 0,
+  travelling: !!user.travelling,
+  distanceKm: user.distanceKm ?? null,
+  approximateLocation: user.approximateLocation ?? null,
+  ...(user.scoreBreakdown ? { scoreBreakdown: user.scoreBreakdown } : {}),
+});
+
+// Support staff, still without credentials
+export const serializeAdmin = (user: userRecord) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  lat: user.lat,
+  lon: user.lon,
+  emailVerifiedAt: user.emailVerifiedAt ?? null,
+  lastActiveAt: user.lastActiveAt ?? null,
+  twoFactorEnabled: !!user.totpEnabledAt,
+  birthdate: user.birthdate ?? null,
+  ...serializeProfile(user),
+  ...(user.images ? { images: serializeImages(user) } : {}),
+  ...(user.counts ? { counts: user.counts } : {}),
+});
@@ -49,12 +49,13 @@ import http from "http";
 import logger from "./cors/logger";
 import WebSocket from "ws";
 import { validateClientJWT } from "./cors/jwt";
+import { getActiveSession } from "./controllers/sessions";
+import { clients } from "./cors/socketClients";
+import { touchLastActive } from "./controllers/users";
+import { broadcastPresence } from "./cors/presence";
 
 const wss = new WebSocket.Server({ port: 3000 }); // Set path to "/ws"
 
-// Store connected clients
-const clients = new Map();
-
 wss.on("connection", (ws) => {
   logger.info("New WebSocket connection");
 
@@ -81,6 +82,8 @@ wss.on("connection", (ws) => {
     for (let [key, value] of clients) {
       if (value === ws) {
         clients.delete(key);
+        touchLastActive(key, 0);
+        broadcastPresence(key, false);
         break;
       }
     }
@@ -92,12 +95,20 @@ wss.on("connection", (ws) => {
   });
 });
 
-function handleHandshake(ws, token) {
+async function handleHandshake(ws, token) {
   const user = validateClientJWT(token);
+  // Reject tokens whose session was logged out or revoked
+  const sessionStatus = user ? await getActiveSession(user.sid) : null;
+  // The socket may have closed while the session was looked up, its close
+  // handler already ran and a stored socket would show the user online
+  if (ws.readyState !== WebSocket.OPEN) return;
   // Authenticate the user and store the WebSocket connection
-  if (user) {
-    clients.set(user.email, ws);
-    logger.info(`User ${user.email} connected`);
+  if (user && sessionStatus.success && sessionStatus.data.userId === user.sub) {
+    const wasConnected = clients.has(user.sub);
+    clients.set(user.sub, ws);
+    logger.info(`User ${user.sub} connected`);
+    await touchLastActive(user.sub, 0);
+    if (!wasConnected) broadcastPresence(user.sub, true);
   } else {
     ws.close();
     logger.info("Invalid token. Connection closed.");
@@ -0,0 +1,13 @@
+export interface attemptRecord {
+  failures: number;
+  // Epoch ms before which no new attempt is accepted
+  blockedUntil: number;
+  lastFailureAt: number;
+}
+
+export interface attemptStore {
+  get: (key: string) => Promise<attemptRecord | null>;
+  // The record is dropped once `ttlMs` passes without another write
+  set: (key: string, record: attemptRecord, ttlMs: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { Gender } from "@prisma/client";
+
+export interface discoveryPreferences {
+  maxDistanceKm: number;
+  minAge: number;
+  maxAge: number;
+  // Empty means everyone
+  genders: Gender[];
+  recycleDislikes: boolean;
+}
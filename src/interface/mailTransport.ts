@@ -0,0 +1,10 @@
+export interface mailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface mailTransport {
+  name: string;
+  send: (message: mailMessage) => Promise<void>;
+}
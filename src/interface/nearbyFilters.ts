@@ -0,0 +1,16 @@
+import { activityLevel } from "../cors/presence";
+import { feedCursor } from "../cors/feedCursor";
+
+export type nearbySort = "distance" | "activity" | "recommended";
+
+export interface nearbyFilters {
+  tags?: string[];
+  active?: activityLevel;
+  sort?: nearbySort;
+  // Replaces the viewer's maximum distance for this request
+  radiusKm?: number;
+  limit?: number;
+  cursor?: feedCursor;
+  // Adds the score breakdown to every card, admins only
+  debug?: boolean;
+}
@@ -0,0 +1,4 @@
+export interface privacySettings {
+  hideDistance?: boolean;
+  incognito?: boolean;
+}
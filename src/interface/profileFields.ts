@@ -0,0 +1,17 @@
+import { Gender } from "@prisma/client";
+
+export interface profilePrompt {
+  question: string;
+  answer: string;
+}
+
+// Missing fields are left as they are, null clears a field
+export interface profileFields {
+  bio?: string | null;
+  birthdate?: Date | null;
+  gender?: Gender | null;
+  pronouns?: string | null;
+  occupation?: string | null;
+  timezone?: string | null;
+  prompts?: profilePrompt[];
+}
@@ -1,7 +1,15 @@
 import { Request } from "express";
+import { Prisma } from "@prisma/client";
+import { userSelect } from "../controllers/users";
+
+export type authenticatedUser = Prisma.UserGetPayload<{
+  select: typeof userSelect;
+}>;
 
 export interface protectedRequest extends Request {
-  user: { email: string };
+  // Loaded by protectClient, never send it as is, see userSerializer
+  user: authenticatedUser;
+  sessionId: string;
   email?: {
     email: string;
   };
@@ -0,0 +1,6 @@
+import { Prisma } from "@prisma/client";
+import { userExportSelect } from "../controllers/users";
+
+export type userExport = Prisma.UserGetPayload<{
+  select: typeof userExportSelect;
+}>;
@@ -0,0 +1,435 @@
+import { Router, Response } from "express";
+import { body, param, query, validationResult } from "express-validator";
+import logger from "../../cors/logger";
+import { protectAdmin } from "../../cors/middlewares";
+import { protectedRequest } from "../../interface/protectedRequest";
+import {
+  adminUpdateUser,
+  getUserDetails,
+  searchUsers,
+} from "../../controllers/users";
+import { revokeUserSessions } from "../../controllers/sessions";
+import { hashPassword, passwordPolicy } from "../../cors/password";
+import { generateRandomToken } from "../../cors/jwt";
+import { requestPasswordReset } from "../../cors/passwordReset";
+import { serializeAdmin } from "../../cors/userSerializer";
+import { pickProfileFields, profileValidators } from "../../cors/profile";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /admin/users:
+ *   get:
+ *     summary: Search and page through users
+ *     tags:
+ *       - AdminUsers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Matches part of the name or email, or the exact id
+ *       - in: query
+ *         name: take
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: skip
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: A page of users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     total:
+ *                       type: integer
+ *                     take:
+ *                       type: integer
+ *                     skip:
+ *                       type: integer
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The caller is not an admin
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/",
+  protectAdmin,
+  query("search").optional().isString(),
+  query("take").optional().isInt({ min: 1, max: 100 }),
+  query("skip").optional().isInt({ min: 0 }),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Admin request received to search users", {
+        section: "adminSearchUsersRoute",
+        admin: req.user.email,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const search = req.query.search as string | undefined;
+      const take = req.query.take ? parseInt(req.query.take as string) : 20;
+      const skip = req.query.skip ? parseInt(req.query.skip as string) : 0;
+
+      const searchStatus = await searchUsers(search, take, skip);
+
+      if (!searchStatus.success) {
+        return res.status(500).json(searchStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...searchStatus.data,
+          users: searchStatus.data.users.map(serializeAdmin),
+        },
+      });
+    } catch (error) {
+      logger.error("Unexpected error during user search:", {
+        section: "adminSearchUsersRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/users/{id}:
+ *   get:
+ *     summary: View a user with their images and like/dislike counts
+ *     tags:
+ *       - AdminUsers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User details
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The caller is not an admin
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:id",
+  protectAdmin,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Admin request received to view a user", {
+        section: "adminGetUserRoute",
+        admin: req.user.email,
+        userId: req.params.id,
+      });
+
+      const detailsStatus = await getUserDetails(req.params.id);
+
+      if (!detailsStatus.success) {
+        return res
+          .status(detailsStatus.error ? 500 : 404)
+          .json(detailsStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: serializeAdmin(detailsStatus.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while viewing a user:", {
+        section: "adminGetUserRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/users/{id}:
+ *   put:
+ *     summary: Edit a user's profile
+ *     description: Only the fields sent are changed. Profile fields can be cleared with null, and prompts are replaced as a whole, so support can remove offensive content.
+ *     tags:
+ *       - AdminUsers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               lat:
+ *                 type: number
+ *                 format: float
+ *               lon:
+ *                 type: number
+ *                 format: float
+ *               role:
+ *                 type: string
+ *                 enum: [USER, ADMIN]
+ *               bio:
+ *                 type: string
+ *                 nullable: true
+ *               birthdate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               gender:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [WOMAN, MAN, NON_BINARY, OTHER]
+ *               pronouns:
+ *                 type: string
+ *                 nullable: true
+ *               occupation:
+ *                 type: string
+ *                 nullable: true
+ *               timezone:
+ *                 type: string
+ *                 nullable: true
+ *               prompts:
+ *                 type: array
+ *                 description: Replaces all prompts, an empty list removes them
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     question:
+ *                       type: string
+ *                     answer:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: User updated successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The caller is not an admin
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: The email is already used by another account
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/:id",
+  protectAdmin,
+  body("name").optional().isString(),
+  body("email").optional().isEmail(),
+  body("lat").optional().isFloat({ min: -90, max: 90 }).toFloat(),
+  body("lon").optional().isFloat({ min: -180, max: 180 }).toFloat(),
+  body("role").optional().isIn(["USER", "ADMIN"]),
+  ...profileValidators,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Admin request received to update a user", {
+        section: "adminUpdateUserRoute",
+        admin: req.user.email,
+        userId: req.params.id,
+        requestBody: req.body,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const { name, email, lat, lon, role } = req.body;
+
+      const updateStatus = await adminUpdateUser(
+        req.params.id,
+        {
+          name,
+          email,
+          lat,
+          lon,
+          role,
+        },
+        pickProfileFields(req.body)
+      );
+
+      if (!updateStatus.success) {
+        const status = updateStatus.error
+          ? 500
+          : updateStatus.conflict
+          ? 409
+          : 404;
+        return res.status(status).json(updateStatus);
+      }
+
+      const detailsStatus = await getUserDetails(req.params.id);
+
+      return res.status(200).json({
+        success: true,
+        message: updateStatus.message,
+        data: serializeAdmin(detailsStatus.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while updating a user:", {
+        section: "adminUpdateUserRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/users/{id}/reset-password:
+ *   post:
+ *     summary: Force a password reset
+ *     description: Signs the user out everywhere. With a password it is set directly, without one the current password is discarded and a reset link is mailed to the user.
+ *     tags:
+ *       - AdminUsers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 description: New password, must follow the password policy
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The caller is not an admin
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:id/reset-password",
+  protectAdmin,
+  param("id").isString(),
+  body("password").optional().custom(passwordPolicy),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Admin request received to reset a password", {
+        section: "adminResetPasswordRoute",
+        admin: req.user.email,
+        userId: req.params.id,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const { password } = req.body;
+
+      // Without a new password, lock the old one out with a random hash
+      const updateStatus = await adminUpdateUser(req.params.id, {
+        hash: await hashPassword(password ? password : generateRandomToken()),
+      });
+
+      if (!updateStatus.success) {
+        return res
+          .status(updateStatus.error ? 500 : 404)
+          .json(updateStatus);
+      }
+
+      await revokeUserSessions(req.params.id);
+
+      if (!password) {
+        await requestPasswordReset(updateStatus.data.email);
+      }
+
+      logger.info("Password reset by admin", {
+        section: "adminResetPasswordRoute",
+        admin: req.user.email,
+        userId: req.params.id,
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: password
+          ? "Password updated and sessions revoked"
+          : "Password cleared, sessions revoked and reset link sent",
+      });
+    } catch (error) {
+      logger.error("Unexpected error while resetting a password:", {
+        section: "adminResetPasswordRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+export default router;
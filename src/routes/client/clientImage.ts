@@ -6,7 +6,7 @@ import multer from "multer";
 import { protectClient } from "../../cors/middlewares";
 import { protectedRequest } from "../../interface/protectedRequest";
 import { createImage } from "../../controllers/images";
-import { getUserByEmail } from "../../controllers/users";
+import { serializeImage } from "../../cors/userSerializer";
 
 
 
@@ -96,7 +96,7 @@ router.post(
     try {
       logger.info("Incoming request to create coperation", {
         section: "createCoperationRoute",
-        userId: req.user.email,
+        userId: req.user.id,
         filename: req.file ? req.file.filename : undefined,
       });
 
@@ -111,18 +111,7 @@ router.post(
 
       const image_filename = req.file ? req.file.filename : undefined;
 
-
-      let getStatus = await getUserByEmail(req.user.email);
-
-      if (!getStatus.success) {
-        logger.warn(`Cant find user with the the email ${req.user.email}`);
-        return res.status(401).json(getStatus);
-      }
-
-      const createStatus = await createImage(
-        getStatus.data.id,
-        image_filename
-      );
+      const createStatus = await createImage(req.user.id, image_filename);
 
       if (!createStatus.success) {
         logger.error("Coperation creation failed", {
@@ -136,7 +125,10 @@ router.post(
         section: "createCoperationRoute",
         data: createStatus.data,
       });
-      return res.status(200).json(createStatus);
+      return res.status(200).json({
+        ...createStatus,
+        data: serializeImage(createStatus.data),
+      });
     } catch (error: any) {
       logger.error("Unexpected error during coperation creation", {
         section: "createCoperationRoute",
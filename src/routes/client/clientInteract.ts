@@ -1,12 +1,36 @@
 import { Router, Request, Response } from "express";
-import { body, validationResult } from "express-validator";
+import { body, query, validationResult } from "express-validator";
 import logger from "../../cors/logger";
-import { protectClient } from "../../cors/middlewares";
+import {
+  protectClient,
+  rejectOverQuota,
+  requireVerified,
+} from "../../cors/middlewares";
+import { getInteractionQuota } from "../../controllers/quotas";
+import { undoLastInteraction } from "../../controllers/undo";
 import { protectedRequest } from "../../interface/protectedRequest";
-import { findNearbyUsers, getUserByEmail } from "../../controllers/users";
+import {
+  findNearbyUsers,
+  getPublicProfile,
+  withLocationLabel,
+} from "../../controllers/users";
+import {
+  getRecentViewers,
+  recordProfileView,
+} from "../../controllers/profileViews";
+import { sendToUser } from "../../cors/socketClients";
 import { createLike, deleteLike } from "../../controllers/likes";
 import { get } from "http";
 import { createDislike, deleteDislike } from "../../controllers/dislikes";
+import {
+  serializeNearbyUser,
+  serializeOtherUser,
+} from "../../cors/userSerializer";
+import { MAX_TAGS, parseTagQuery } from "../../cors/interests";
+import { activityLevel } from "../../cors/presence";
+import { decodeCursor } from "../../cors/feedCursor";
+import { MAX_DISTANCE_KM } from "../../cors/discovery";
+import { nearbySort } from "../../interface/nearbyFilters";
 
 const router = Router();
 
@@ -60,6 +84,28 @@ const router = Router();
  *                 message:
  *                   type: string
  *                   example: User ID and Liked By ID are required
+ *       403:
+ *         description: The caller has not verified their email address.
+ *       429:
+ *         description: The daily limit is used up, it resets at the caller's local midnight.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 code:
+ *                   type: string
+ *                   example: DAILY_LIKE_LIMIT_REACHED
+ *                 message:
+ *                   type: string
+ *                 limit:
+ *                   type: integer
+ *                 resetsAt:
+ *                   type: string
+ *                   format: date-time
  *       500:
  *         description: Internal server error.
  *         content:
@@ -77,19 +123,16 @@ const router = Router();
 router.post(
   "/likes/:userId",
   protectClient,
+  requireVerified,
   async (req: protectedRequest, res: Response) => {
     const userId = req.params.userId;
-    const email = req.user.email;
     try {
-      let getStatus = await getUserByEmail(email);
+      const result = await createLike(userId, req.user);
 
-      if (!getStatus.success) {
-        logger.warn(`Cant find user with the the email ${req.user.email}`);
-        return res.status(401).json(getStatus);
+      if (result.limitReached) {
+        return rejectOverQuota(res, "likes", result.limitReached);
       }
 
-      const result = await createLike(userId, getStatus.data.id);
-
       if (result.success) {
         res.status(200).json(result);
       } else {
@@ -203,14 +246,65 @@ router.delete(
  * /client/interact/nearby:
  *   get:
  *     summary: Find nearby users
- *     description: Retrieves a list of users located within a 10-kilometer radius of the authenticated user's location.
+ *     description: Retrieves one page of verified users within the caller's maximum distance who also match the caller's age and gender preferences. The other user's preferences have to accept the caller too. Incognito users are left out unless they liked the caller. Users the caller already liked or disliked are left out too, disliked ones come back after a while when `recycleDislikes` is on in the discovery preferences.
  *     tags:
  *       - Users
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tags
+ *         required: false
+ *         description: Comma separated tag slugs, only users sharing at least one of them are returned.
+ *         schema:
+ *           type: string
+ *           example: "hiking,chess"
+ *       - in: query
+ *         name: active
+ *         required: false
+ *         description: Only users who are online now, or who were active recently (online included).
+ *         schema:
+ *           type: string
+ *           enum: [online, recently]
+ *       - in: query
+ *         name: sort
+ *         required: false
+ *         description: Closest users first by default, the most recently active ones first, or ranked by a score combining distance, shared interests, activity, profile completeness and the share of likes among the likes and dislikes a user received, with a bonus for new users. Later pages are scored at the time of the first one.
+ *         schema:
+ *           type: string
+ *           enum: [distance, activity, recommended]
+ *           default: distance
+ *       - in: query
+ *         name: debug
+ *         required: false
+ *         description: Admins only, adds `scoreBreakdown` to every result.
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: radius
+ *         required: false
+ *         description: Search radius in whole kilometers, replaces the caller's maximum distance preference for this request. The other user's maximum distance still applies. Users are matched on the same rounded distance `distanceKm` shows.
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         required: false
+ *         description: The `nextCursor` of the previous page, only valid with the same sort.
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Successfully retrieved nearby users
+ *         description: One page of nearby users, an empty list when nobody matches
  *         content:
  *           application/json:
  *             schema:
@@ -232,20 +326,71 @@ router.delete(
  *                         type: string
  *                         description: User's name
  *                         example: "John Doe"
- *                       email:
+ *                       activity:
  *                         type: string
- *                         description: User's email
- *                         example: "john.doe@example.com"
- *                       lat:
- *                         type: number
- *                         description: Latitude of the user's location
- *                         example: 37.7749
- *                       lon:
+ *                         nullable: true
+ *                         enum: [online, recently]
+ *                         description: Online now, active recently, or null
+ *                       locationLabel:
+ *                         type: string
+ *                         nullable: true
+ *                         description: Nearest city to where the user is placed, null when no city is close or the user hides their distance
+ *                         example: "Lyon, France"
+ *                       images:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                             filename:
+ *                               type: string
+ *                       tags:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             slug:
+ *                               type: string
+ *                             name:
+ *                               type: string
+ *                       sharedTags:
+ *                         type: array
+ *                         description: Interests the caller has too
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             slug:
+ *                               type: string
+ *                             name:
+ *                               type: string
+ *                       overlapScore:
  *                         type: number
- *                         description: Longitude of the user's location
- *                         example: -122.4194
+ *                         description: Shared interests divided by the interests of both users together, from 0 to 1
+ *                         example: 0.25
+ *                       travelling:
+ *                         type: boolean
+ *                         description: The user is placed at a travel location for now
+ *                       distanceKm:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Rounded up distance bucket, null when the user hides their distance
+ *                         example: 5
+ *                       approximateLocation:
+ *                         type: object
+ *                         nullable: true
+ *                         description: Position snapped to a grid cell, never the stored coordinates
+ *                         properties:
+ *                           lat:
+ *                             type: number
+ *                           lon:
+ *                             type: number
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Opaque cursor for the next page, null on the last page
  *       400:
- *         description: Bad request due to missing parameters
+ *         description: Bad request due to invalid query parameters or cursor
  *         content:
  *           application/json:
  *             schema:
@@ -256,7 +401,7 @@ router.delete(
  *                   example: false
  *                 message:
  *                   type: string
- *                   example: "User ID is required"
+ *                   example: "Invalid cursor"
  *       401:
  *         description: Unauthorized access due to invalid token or user not found
  *         content:
@@ -270,19 +415,8 @@ router.delete(
  *                 message:
  *                   type: string
  *                   example: "Unauthorized access. Token is missing."
- *       404:
- *         description: No nearby users found
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: "No nearby users found."
+ *       403:
+ *         description: A score breakdown was requested by a user who is not an admin
  *       500:
  *         description: Internal server error
  *         content:
@@ -304,23 +438,67 @@ router.delete(
 router.get(
   "/nearby",
   protectClient,
+  [
+    query("tags")
+      .optional()
+      .custom((value) => parseTagQuery(value).length <= MAX_TAGS)
+      .withMessage(`At most ${MAX_TAGS} tags can be used as a filter`),
+    query("active").optional().isIn(["online", "recently"]),
+    query("sort").optional().isIn(["distance", "activity", "recommended"]),
+    query("debug").optional().isBoolean(),
+    query("radius").optional().isInt({ min: 1, max: MAX_DISTANCE_KM }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 50 }).toInt(),
+    query("cursor").optional().isString(),
+  ],
   async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
     try {
+      const tags = parseTagQuery(req.query.tags);
+
       logger.info(`Received request to find nearby users`, {
         section: "nearbyRoute",
-        userEmail: req.user.email,
+        userId: req.user.id,
+        tags,
       });
 
-      const getStatus = await getUserByEmail(req.user.email);
+      const sort = (req.query.sort || "distance") as nearbySort;
 
-      if (!getStatus.success) {
-        logger.warn(`Can't find user with the email ${req.user.email}`, {
-          section: "nearbyRoute",
+      // Score internals are for tuning the weights, not for clients
+      const debug = req.query.debug === "true" || req.query.debug === "1";
+      if (debug && req.user.role !== "ADMIN") {
+        return res.status(403).json({
+          success: false,
+          message: "Score breakdowns are only available to admins",
         });
-        return res.status(401).json(getStatus);
       }
 
-      const result = await findNearbyUsers(getStatus.data.id);
+      // A cursor only continues the sort it was issued for
+      const cursor =
+        req.query.cursor !== undefined
+          ? decodeCursor(String(req.query.cursor))
+          : undefined;
+      if (cursor === null || (cursor && cursor.sort !== sort)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid cursor",
+        });
+      }
+
+      const result = await findNearbyUsers(req.user.id, {
+        tags,
+        active: req.query.active as activityLevel | undefined,
+        sort,
+        radiusKm: req.query.radius ? Number(req.query.radius) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        cursor,
+        debug,
+      });
 
       if (result.success) {
         logger.info(`Successfully found nearby users`, {
@@ -328,13 +506,17 @@ router.get(
           nearbyUserCount: result.data.length,
         });
 
-        res.status(200).json(result);
+        res.status(200).json({
+          success: true,
+          data: result.data.map(serializeNearbyUser),
+          nextCursor: result.nextCursor,
+        });
       } else {
-        logger.warn(`No nearby users found for user ID: ${getStatus.data.id}`, {
+        logger.warn(`Could not find nearby users for user ID: ${req.user.id}`, {
           section: "nearbyRoute",
         });
 
-        res.status(404).json({
+        res.status(500).json({
           success: false,
           message: result.message,
         });
@@ -357,6 +539,329 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /client/interact/undo:
+ *   post:
+ *     summary: Undo the last like or dislike
+ *     description: Deletes the caller's most recent like or dislike if it is younger than UNDO_WINDOW_SECONDS (5 minutes by default). A match made by that like is gone with it, and only then does the other user get a `likeRevoked` WebSocket message so the match can be removed. A like that had not made a match is taken back silently, the liked user never learns who it was. The user comes back first in the caller's next nearby page.
+ *     tags:
+ *       - Likes
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The action was undone
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [like, dislike]
+ *                     userId:
+ *                       type: string
+ *                       description: The user the action was about
+ *                     matched:
+ *                       type: boolean
+ *                       description: The undone like had made a match
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No like or dislike inside the undo window
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/undo",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to undo the last action", {
+        section: "undoRoute",
+        userId: req.user.id,
+      });
+
+      const result = await undoLastInteraction(req.user.id);
+
+      if (!result.success) {
+        return res.status("error" in result ? 500 : 404).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      // Without a match the liked user was never told who liked them, a
+      // message now would give the liker away
+      if (result.data.type === "like" && result.data.matched) {
+        sendToUser(result.data.userId, "likeRevoked", {
+          userId: req.user.id,
+        });
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      logger.error("Unexpected error while undoing the last action:", {
+        section: "undoRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/interact/quota:
+ *   get:
+ *     summary: Remaining likes and dislikes for today
+ *     description: Both limits reset at the caller's local midnight, from the `timezone` on the profile or estimated from the location when it is not set. A new time zone or location only takes effect from the next reset, and a day lasts at least 23 hours. A `limit` of 0 and a `remaining` of null mean unlimited.
+ *     tags:
+ *       - Likes
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current quota
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     likes:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: integer
+ *                         used:
+ *                           type: integer
+ *                         remaining:
+ *                           type: integer
+ *                           nullable: true
+ *                     dislikes:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: integer
+ *                         used:
+ *                           type: integer
+ *                         remaining:
+ *                           type: integer
+ *                           nullable: true
+ *                     resetsAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/quota",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to check the daily limits", {
+        section: "quotaRoute",
+        userId: req.user.id,
+      });
+
+      const result = await getInteractionQuota(req.user);
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      logger.error("Unexpected error while checking the daily limits:", {
+        section: "quotaRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/interact/users/{id}:
+ *   get:
+ *     summary: Get another user's public profile
+ *     description: Returns the profile card with images and the nearest city as `locationLabel`. The view is recorded once per viewer and day and the owner is notified over the WebSocket with a `profileView` message. Views by incognito users are not recorded, and incognito users are only found by people they liked.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: ID of the user to look at.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The public profile
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/users/:id",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    const { id } = req.params;
+
+    try {
+      logger.info("Request received to view a profile", {
+        section: "viewProfileRoute",
+        userId: req.user.id,
+        viewedId: id,
+      });
+
+      const result = await getPublicProfile(id, req.user.id);
+
+      if (!result.success) {
+        return res.status("error" in result ? 500 : 404).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      // Looking at yourself is not a view, and unverified or incognito
+      // accounts do not show up in anybody's viewer list
+      if (
+        id !== req.user.id &&
+        req.user.emailVerifiedAt &&
+        !req.user.incognito
+      ) {
+        const viewStatus = await recordProfileView(req.user.id, id);
+
+        if (viewStatus.success && viewStatus.data.created) {
+          sendToUser(id, "profileView", {
+            viewer: serializeOtherUser(withLocationLabel(req.user)),
+          });
+        }
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: serializeOtherUser(result.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while viewing a profile:", {
+        section: "viewProfileRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/interact/viewers:
+ *   get:
+ *     summary: List recent profile viewers
+ *     description: People who looked at the caller's profile, newest first, each listed once with the time of their last view.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Recent viewers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       viewer:
+ *                         type: object
+ *                         description: Public profile of the viewer
+ *                       viewedAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/viewers",
+  protectClient,
+  [query("limit").optional().isInt({ min: 1, max: 50 }).toInt()],
+  async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    try {
+      logger.info("Request received to list recent viewers", {
+        section: "recentViewersRoute",
+        userId: req.user.id,
+      });
+
+      const limit = req.query.limit ? Number(req.query.limit) : 20;
+      const result = await getRecentViewers(req.user.id, limit);
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result.data.map((view) => ({
+          viewer: serializeOtherUser(view.viewer),
+          viewedAt: view.viewedAt,
+        })),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while listing recent viewers:", {
+        section: "recentViewersRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
 /**
  * @swagger
  * /client/interact/dislikes/{userId}:
@@ -384,7 +889,7 @@ router.get(
  *                 description: ID of the user who dislikes.
  *     responses:
  *       200:
- *         description: Successfully created a dislike.
+ *         description: Successfully created a dislike. Disliking the same user again renews the existing dislike.
  *         content:
  *           application/json:
  *             schema:
@@ -414,6 +919,28 @@ router.get(
  *                 message:
  *                   type: string
  *                   example: User ID and Disliked By ID are required.
+ *       403:
+ *         description: The caller has not verified their email address.
+ *       429:
+ *         description: The daily limit is used up, it resets at the caller's local midnight.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 code:
+ *                   type: string
+ *                   example: DAILY_DISLIKE_LIMIT_REACHED
+ *                 message:
+ *                   type: string
+ *                 limit:
+ *                   type: integer
+ *                 resetsAt:
+ *                   type: string
+ *                   format: date-time
  *       500:
  *         description: Internal server error.
  *         content:
@@ -431,25 +958,19 @@ router.get(
 router.post(
   "/dislikes/:userId",
   protectClient,
+  requireVerified,
   async (req: protectedRequest, res: Response) => {
     const userId = req.params.userId; // ID of the user being disliked
-    const email = req.user.email; // Email of the user who is disliking
+    const dislikedById = req.user.id; // ID of the user who is disliking
 
     try {
-      // Retrieve the user details from the email
-      const getStatus = await getUserByEmail(email);
+      // Create the dislike, within the caller's daily quota
+      const result = await createDislike(userId, req.user);
 
-      if (!getStatus.success) {
-        logger.warn(`Can't find user with the email ${req.user.email}`);
-        return res.status(401).json({
-          success: false,
-          message: "Unauthorized: Unable to find user",
-        });
+      if (result.limitReached) {
+        return rejectOverQuota(res, "dislikes", result.limitReached);
       }
 
-      // Create the dislike
-      const result = await createDislike(userId, getStatus.data.id);
-
       if (result.success) {
         res.status(200).json(result);
       } else {
@@ -463,7 +984,7 @@ router.post(
         error,
         section: "dislikeRoutes.createDislike",
         userId,
-        email,
+        dislikedById,
         timestamp: new Date().toISOString(),
       });
 
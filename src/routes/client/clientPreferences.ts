@@ -0,0 +1,419 @@
+import { Router, Response } from "express";
+import { body, validationResult } from "express-validator";
+import { Gender } from "@prisma/client";
+import logger from "../../cors/logger";
+import { protectClient } from "../../cors/middlewares";
+import { protectedRequest } from "../../interface/protectedRequest";
+import {
+  getDiscoveryPreferences,
+  updateDiscoveryPreferences,
+} from "../../controllers/preferences";
+import { MAX_AGE, MAX_DISTANCE_KM } from "../../cors/discovery";
+import { MIN_AGE } from "../../cors/profile";
+import {
+  setTravelLocation,
+  updatePrivacySettings,
+} from "../../controllers/users";
+import { TRAVEL_MAX_DAYS } from "../../cors/travel";
+import { serializeSelf } from "../../cors/userSerializer";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /client/preferences:
+ *   get:
+ *     summary: Get discovery preferences
+ *     description: Returns who the caller wants to see in the nearby feed. Users who never saved preferences get the defaults.
+ *     tags:
+ *       - Preferences
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     maxDistanceKm:
+ *                       type: number
+ *                       example: 10
+ *                     minAge:
+ *                       type: integer
+ *                       example: 18
+ *                     maxAge:
+ *                       type: integer
+ *                       example: 99
+ *                     genders:
+ *                       type: array
+ *                       description: Genders to show, empty means everyone
+ *                       items:
+ *                         type: string
+ *                         enum: [WOMAN, MAN, NON_BINARY, OTHER]
+ *                     recycleDislikes:
+ *                       type: boolean
+ *                       description: Let disliked users show up again after DISLIKE_RECYCLE_DAYS days
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/", protectClient, async (req: protectedRequest, res: Response) => {
+  try {
+    logger.info("Request received to get discovery preferences", {
+      section: "getPreferencesRoute",
+      userId: req.user.id,
+    });
+
+    const result = await getDiscoveryPreferences(req.user.id);
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.status(200).json(result);
+  } catch (error) {
+    logger.error("Unexpected error while getting discovery preferences:", {
+      section: "getPreferencesRoute",
+      error: error.message,
+    });
+    return res.status(500).json({ error: "Unexpected error" });
+  }
+});
+
+/**
+ * @swagger
+ * /client/preferences:
+ *   put:
+ *     summary: Update discovery preferences
+ *     description: Only the fields sent are changed. The nearby feed applies preferences in both directions, so a user only appears to people they would also want to see.
+ *     tags:
+ *       - Preferences
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxDistanceKm:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 500
+ *               minAge:
+ *                 type: integer
+ *                 minimum: 18
+ *                 maximum: 99
+ *               maxAge:
+ *                 type: integer
+ *                 minimum: 18
+ *                 maximum: 99
+ *               genders:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [WOMAN, MAN, NON_BINARY, OTHER]
+ *               recycleDislikes:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: Validation failed or the age range is inverted
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/",
+  protectClient,
+  [
+    body("maxDistanceKm")
+      .optional()
+      .isInt({ min: 1, max: MAX_DISTANCE_KM })
+      .withMessage(
+        `Maximum distance must be a whole number between 1 and ${MAX_DISTANCE_KM} km`
+      ),
+    body("minAge")
+      .optional()
+      .isInt({ min: MIN_AGE, max: MAX_AGE })
+      .withMessage(`Minimum age must be between ${MIN_AGE} and ${MAX_AGE}`),
+    body("maxAge")
+      .optional()
+      .isInt({ min: MIN_AGE, max: MAX_AGE })
+      .withMessage(`Maximum age must be between ${MIN_AGE} and ${MAX_AGE}`),
+    body("genders")
+      .optional()
+      .isArray()
+      .withMessage("Genders must be a list"),
+    body("genders.*")
+      .isIn(Object.values(Gender))
+      .withMessage("Unknown gender"),
+    body("recycleDislikes").optional().isBoolean({ strict: true }),
+  ],
+  async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    try {
+      logger.info("Request received to update discovery preferences", {
+        section: "updatePreferencesRoute",
+        userId: req.user.id,
+      });
+
+      const { maxDistanceKm, minAge, maxAge, genders, recycleDislikes } =
+        req.body;
+
+      const result = await updateDiscoveryPreferences(req.user.id, {
+        maxDistanceKm: maxDistanceKm === undefined ? undefined : Number(maxDistanceKm),
+        minAge: minAge === undefined ? undefined : Number(minAge),
+        maxAge: maxAge === undefined ? undefined : Number(maxAge),
+        genders: genders === undefined ? undefined : Array.from(new Set(genders)),
+        recycleDislikes,
+      });
+
+      if (!result.success) {
+        return res.status("error" in result ? 500 : 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      logger.error("Unexpected error while updating discovery preferences:", {
+        section: "updatePreferencesRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/preferences/privacy:
+ *   put:
+ *     summary: Update privacy settings
+ *     description: With `hideDistance` on, other users see neither how far away the caller is nor an approximate position. Exact coordinates are never shown to other users either way.
+ *     tags:
+ *       - Preferences
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               hideDistance:
+ *                 type: boolean
+ *               incognito:
+ *                 type: boolean
+ *                 description: Leaves the caller out of other people's nearby feed and profile lookups, except for users they liked. Browsing keeps working.
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/privacy",
+  protectClient,
+  [
+    body("hideDistance").optional().isBoolean({ strict: true }),
+    body("incognito").optional().isBoolean({ strict: true }),
+  ],
+  async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    try {
+      logger.info("Request received to update privacy settings", {
+        section: "updatePrivacyRoute",
+        userId: req.user.id,
+      });
+
+      const result = await updatePrivacySettings(req.user.id, {
+        hideDistance: req.body.hideDistance,
+        incognito: req.body.incognito,
+      });
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: serializeSelf(result.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while updating privacy settings:", {
+        section: "updatePrivacyRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/preferences/travel:
+ *   put:
+ *     summary: Start or change travel mode
+ *     description: Until `until` passes, the nearby feed is searched around the travel location and the caller is shown to people near it with a travelling badge. Afterwards the real location is used again without any further call.
+ *     tags:
+ *       - Preferences
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               lat:
+ *                 type: number
+ *               lon:
+ *                 type: number
+ *               until:
+ *                 type: string
+ *                 format: date-time
+ *                 description: At most 30 days ahead by default, see TRAVEL_MAX_DAYS
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/travel",
+  protectClient,
+  [
+    body("lat").isFloat({ min: -90, max: 90 }),
+    body("lon").isFloat({ min: -180, max: 180 }),
+    body("until")
+      .isISO8601({ strict: true })
+      .custom((value: string) => {
+        const until = new Date(value).getTime();
+        if (until <= Date.now()) {
+          throw new Error("The end of the trip must be in the future");
+        }
+        if (until > Date.now() + TRAVEL_MAX_DAYS * 24 * 60 * 60 * 1000) {
+          throw new Error(`Trips can last at most ${TRAVEL_MAX_DAYS} days`);
+        }
+        return true;
+      }),
+  ],
+  async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    try {
+      logger.info("Request received to set a travel location", {
+        section: "setTravelRoute",
+        userId: req.user.id,
+      });
+
+      const result = await setTravelLocation(req.user.id, {
+        lat: Number(req.body.lat),
+        lon: Number(req.body.lon),
+        until: new Date(req.body.until),
+      });
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: serializeSelf(result.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while setting a travel location:", {
+        section: "setTravelRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/preferences/travel:
+ *   delete:
+ *     summary: End travel mode now
+ *     tags:
+ *       - Preferences
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.delete(
+  "/travel",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to end travel mode", {
+        section: "clearTravelRoute",
+        userId: req.user.id,
+      });
+
+      const result = await setTravelLocation(req.user.id, null);
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: serializeSelf(result.data),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while ending travel mode:", {
+        section: "clearTravelRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+export default router;
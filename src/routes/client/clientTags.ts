@@ -0,0 +1,141 @@
+import { Router, Request, Response } from "express";
+import { body, validationResult } from "express-validator";
+import logger from "../../cors/logger";
+import { protectClient } from "../../cors/middlewares";
+import { protectedRequest } from "../../interface/protectedRequest";
+import { listTags, setUserTags } from "../../controllers/tags";
+import { MAX_TAGS, serializeTag } from "../../cors/interests";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /client/tags:
+ *   get:
+ *     summary: List the interest catalog
+ *     description: Every tag a user can pick as an interest, ordered by name.
+ *     tags:
+ *       - Tags
+ *     responses:
+ *       200:
+ *         description: The catalog
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       slug:
+ *                         type: string
+ *                         example: "board-games"
+ *                       name:
+ *                         type: string
+ *                         example: "Board Games"
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const result = await listTags();
+
+    if (!result.success) {
+      return res.status(500).json(result);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result.data.map(serializeTag),
+    });
+  } catch (error) {
+    logger.error("Unexpected error while listing tags:", {
+      section: "listTagsRoute",
+      error: error.message,
+    });
+    return res.status(500).json({ error: "Unexpected error" });
+  }
+});
+
+/**
+ * @swagger
+ * /client/tags/mine:
+ *   put:
+ *     summary: Set your interests
+ *     description: Replaces the caller's interests with the given tags. An empty list removes all of them.
+ *     tags:
+ *       - Tags
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                 example: ["hiking", "chess"]
+ *     responses:
+ *       200:
+ *         description: The caller's interests after the update
+ *       400:
+ *         description: Validation failed or a tag is not in the catalog
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/mine",
+  protectClient,
+  [
+    body("tags")
+      .isArray({ max: MAX_TAGS })
+      .withMessage(`Tags must be a list of at most ${MAX_TAGS} slugs`),
+    body("tags.*").isString().trim().toLowerCase().notEmpty(),
+  ],
+  async (req: protectedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    try {
+      logger.info("Request received to set interests", {
+        section: "setTagsRoute",
+        userId: req.user.id,
+      });
+
+      const slugs: string[] = Array.from(new Set(req.body.tags));
+      const result = await setUserTags(req.user.id, slugs);
+
+      if (!result.success) {
+        return res.status("error" in result ? 500 : 400).json(result);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result.data.map(serializeTag),
+      });
+    } catch (error) {
+      logger.error("Unexpected error while setting interests:", {
+        section: "setTagsRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,520 @@
+import { Router, Request, Response } from "express";
+import { body, validationResult } from "express-validator";
+import logger from "../../cors/logger";
+import { protectClient } from "../../cors/middlewares";
+import { protectedRequest } from "../../interface/protectedRequest";
+import { getUserById } from "../../controllers/users";
+import { createSession } from "../../controllers/sessions";
+import {
+  disableTotp,
+  enableTotp,
+  getTwoFactorState,
+  replaceRecoveryCodes,
+  setPendingTotpSecret,
+  verifySecondFactor,
+} from "../../controllers/twoFactor";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from "../../cors/totp";
+import { generateClientJWT, validateMfaJWT } from "../../cors/jwt";
+import {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "../../cors/loginThrottle";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /client/auth/2fa/enroll:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Creates a new TOTP secret. It is not active until confirmed with a code.
+ *     tags:
+ *       - TwoFactor
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       description: Base32 secret for manual entry
+ *                     otpauthUri:
+ *                       type: string
+ *                       description: URI to render as a QR code
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/enroll",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to enroll two-factor", {
+        section: "twoFactorEnrollRoute",
+        userId: req.user.id,
+      });
+
+      const secret = generateTotpSecret();
+      const setStatus = await setPendingTotpSecret(req.user.id, secret);
+
+      if (!setStatus.success) {
+        return res.status(400).json(setStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          secret,
+          otpauthUri: buildOtpauthUri(req.user.email, secret),
+        },
+      });
+    } catch (error) {
+      logger.error("Unexpected error during two-factor enrollment:", {
+        section: "twoFactorEnrollRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm enrollment and turn two-factor on
+ *     description: Returns one-time recovery codes. They are shown only once.
+ *     tags:
+ *       - TwoFactor
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current code from the authenticator app
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid code, no pending enrollment or already enabled
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/confirm",
+  protectClient,
+  body("code").isString(),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to confirm two-factor", {
+        section: "twoFactorConfirmRoute",
+        userId: req.user.id,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const stateStatus = await getTwoFactorState(req.user.id);
+
+      if (!stateStatus.success) {
+        return res.status(500).json(stateStatus);
+      }
+
+      if (stateStatus.data.totpEnabledAt || !stateStatus.data.totpSecret) {
+        return res.status(400).json({
+          success: false,
+          message: "There is no pending two-factor enrollment",
+        });
+      }
+
+      const step = verifyTotp(stateStatus.data.totpSecret, req.body.code);
+
+      if (step === null) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid code",
+        });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const enableStatus = await enableTotp(
+        req.user.id,
+        step,
+        recoveryCodes
+      );
+
+      if (!enableStatus.success) {
+        return res.status(500).json(enableStatus);
+      }
+
+      logger.info("Two-factor enabled", {
+        section: "twoFactorConfirmRoute",
+        userId: req.user.id,
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: enableStatus.message,
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      logger.error("Unexpected error during two-factor confirmation:", {
+        section: "twoFactorConfirmRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces every existing recovery code.
+ *     tags:
+ *       - TwoFactor
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current authenticator code or an unused recovery code
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code or two-factor is not enabled
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/recovery-codes",
+  protectClient,
+  body("code").isString(),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to regenerate recovery codes", {
+        section: "twoFactorRecoveryCodesRoute",
+        userId: req.user.id,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      if (!req.user.totpEnabledAt) {
+        return res.status(400).json({
+          success: false,
+          message: "Two-factor authentication is not enabled",
+        });
+      }
+
+      const verifyStatus = await verifySecondFactor(
+        req.user.id,
+        req.body.code
+      );
+
+      if (!verifyStatus.success) {
+        return res.status(400).json(verifyStatus);
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const replaceStatus = await replaceRecoveryCodes(
+        req.user.id,
+        recoveryCodes
+      );
+
+      if (!replaceStatus.success) {
+        return res.status(500).json(replaceStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: replaceStatus.message,
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      logger.error("Unexpected error while regenerating recovery codes:", {
+        section: "twoFactorRecoveryCodesRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/2fa/disable:
+ *   post:
+ *     summary: Turn two-factor authentication off
+ *     tags:
+ *       - TwoFactor
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current authenticator code or an unused recovery code
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid code or two-factor is not enabled
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/disable",
+  protectClient,
+  body("code").isString(),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to disable two-factor", {
+        section: "twoFactorDisableRoute",
+        userId: req.user.id,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      if (!req.user.totpEnabledAt) {
+        return res.status(400).json({
+          success: false,
+          message: "Two-factor authentication is not enabled",
+        });
+      }
+
+      const verifyStatus = await verifySecondFactor(
+        req.user.id,
+        req.body.code
+      );
+
+      if (!verifyStatus.success) {
+        return res.status(400).json(verifyStatus);
+      }
+
+      const disableStatus = await disableTotp(req.user.id);
+
+      if (!disableStatus.success) {
+        return res.status(500).json(disableStatus);
+      }
+
+      logger.info("Two-factor disabled", {
+        section: "twoFactorDisableRoute",
+        userId: req.user.id,
+      });
+
+      return res.status(200).json(disableStatus);
+    } catch (error) {
+      logger.error("Unexpected error while disabling two-factor:", {
+        section: "twoFactorDisableRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/2fa/verify:
+ *   post:
+ *     summary: Finish a two-factor login
+ *     description: Exchanges the mfaToken returned by /client/auth/login and a valid code for a session.
+ *     tags:
+ *       - TwoFactor
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 description: Short-lived token returned by the login step
+ *               code:
+ *                 type: string
+ *                 description: Current authenticator code or an unused recovery code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Invalid or expired mfaToken, or invalid code
+ *       429:
+ *         description: Too many failed attempts, see the Retry-After header
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/verify",
+  body("mfaToken").isString(),
+  body("code").isString(),
+  async (req: Request, res: Response) => {
+    try {
+      logger.info("Request received to verify a two-factor login", {
+        section: "twoFactorVerifyRoute",
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const pending = validateMfaJWT(req.body.mfaToken);
+
+      if (!pending) {
+        return res.status(401).json({ error: "Login expired, start again" });
+      }
+
+      const getStatus = await getUserById(pending.sub);
+
+      if (!getStatus.success || !getStatus.data.totpEnabledAt) {
+        return res.status(401).json({ error: "Login expired, start again" });
+      }
+
+      const email = getStatus.data.email;
+      const retryAfter = await getLoginRetryAfter(email, req.ip);
+
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", retryAfter.toString());
+        return res.status(429).json({
+          error: "Too many failed login attempts, try again later",
+          retryAfter,
+        });
+      }
+
+      const verifyStatus = await verifySecondFactor(
+        getStatus.data.id,
+        req.body.code
+      );
+
+      if (!verifyStatus.success) {
+        logger.warn(`Two-factor code rejected for ${email}`, {
+          section: "twoFactorVerifyRoute",
+        });
+        await recordLoginFailure(email, req.ip);
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      await recordLoginSuccess(email);
+
+      const sessionStatus = await createSession(getStatus.data.id);
+
+      if (!sessionStatus.success) {
+        return res.status(500).json({ error: sessionStatus.message });
+      }
+
+      const token = generateClientJWT(
+        getStatus.data.id,
+        sessionStatus.data.session.id
+      );
+
+      logger.info("Two-factor login completed", {
+        section: "twoFactorVerifyRoute",
+        userId: getStatus.data.id,
+      });
+
+      return res.status(200).json({
+        token,
+        refreshToken: sessionStatus.data.refreshToken,
+        message: "Login successful",
+      });
+    } catch (error) {
+      logger.error("Unexpected error during two-factor login:", {
+        section: "twoFactorVerifyRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+export default router;
@@ -1,16 +1,69 @@
 import { Router, Request, Response } from "express";
-import { body, validationResult } from "express-validator";
+import {
+  CustomValidator,
+  body,
+  query,
+  validationResult,
+} from "express-validator";
 import {
   createUser,
+  deleteUserAccount,
   getUserByEmail,
+  getUserExport,
+  changeUserEmail,
+  getUserById,
+  markEmailVerified,
   updateUser,
 } from "../../controllers/users";
-import { comparePassword, hashPassword } from "../../cors/password";
+import {
+  comparePassword,
+  hashPassword,
+  needsRehash,
+  passwordPolicy,
+} from "../../cors/password";
+import { pickProfileFields, profileValidators } from "../../cors/profile";
+import { geocode, knownPlace } from "../../cors/geocoding";
 import logger from "../../cors/logger";
-import { generateClientJWT } from "../../cors/jwt";
+import {
+  generateClientJWT,
+  generateMfaJWT,
+  validateEmailChangeJWT,
+  validateVerificationJWT,
+} from "../../cors/jwt";
+import {
+  sendEmailChangeConfirmation,
+  sendEmailChangedNotice,
+  sendVerificationEmail,
+  verificationCooldownRemaining,
+} from "../../cors/emailVerification";
+import { requestPasswordReset } from "../../cors/passwordReset";
+import { consumePasswordReset } from "../../controllers/passwordResets";
+import { writeUserExport } from "../../cors/dataExport";
+import { removeImageFiles } from "../../cors/imageFiles";
+import {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "../../cors/loginThrottle";
+import { sendMail } from "../../cors/mailer";
+import { serializeSelf } from "../../cors/userSerializer";
 import { protectedRequest } from "../../interface/protectedRequest";
 import { protectClient } from "../../cors/middlewares";
+import {
+  createSession,
+  revokeSession,
+  revokeUserSessions,
+  rotateSession,
+} from "../../controllers/sessions";
 const router = Router();
+
+// A place name stands in for lat and lon, sending both would be ambiguous
+const placeOrCoordinates: CustomValidator = (place, { req }) => {
+  if (req.body.lat !== undefined || req.body.lon !== undefined) {
+    throw new Error("Send either a place or lat and lon, not both");
+  }
+  return knownPlace(place);
+};
 /**
  * @swagger
  * /client/auth/register:
@@ -33,15 +86,47 @@ const router = Router();
  *                 description: The email of the user
  *               password:
  *                 type: string
- *                 description: The password for the user account, must be at least 6 characters
+ *                 description: The password for the user account, must follow the password policy
  *               lat:
  *                 type: number
  *                 format: float
- *                 description: Latitude of the user's location
+ *                 description: Latitude of the user's location, required unless place is sent
  *               lon:
  *                 type: number
  *                 format: float
- *                 description: Longitude of the user's location
+ *                 description: Longitude of the user's location, required unless place is sent
+ *               place:
+ *                 type: string
+ *                 description: City name such as "Lyon" or "Portland, United States", resolved to coordinates from the bundled gazetteer instead of sending lat and lon
+ *               bio:
+ *                 type: string
+ *                 description: Free text about the user, up to 500 characters
+ *               birthdate:
+ *                 type: string
+ *                 format: date
+ *                 description: Used to show the age, the user must be at least 18
+ *               gender:
+ *                 type: string
+ *                 enum: [WOMAN, MAN, NON_BINARY, OTHER]
+ *               pronouns:
+ *                 type: string
+ *                 description: Up to 30 characters
+ *               occupation:
+ *                 type: string
+ *                 description: Up to 100 characters
+ *               timezone:
+ *                 type: string
+ *                 description: IANA time zone such as Europe/Berlin, daily like limits reset at its midnight from the next reset on
+ *               prompts:
+ *                 type: array
+ *                 description: Up to 3 prompts, replaces the existing ones
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     question:
+ *                       type: string
+ *                     answer:
+ *                       type: string
  *     responses:
  *       200:
  *         description: User created successfully
@@ -67,11 +152,14 @@ const router = Router();
  *                 token:
  *                   type: string
  *                   description: JWT token for user authentication
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Refresh token used to obtain a new access token
  *                 message:
  *                   type: string
  *                   description: Confirmation message
  *       400:
- *         description: Validation failed
+ *         description: Validation failed, also sent for a place that is not in the gazetteer
  *         content:
  *           application/json:
  *             schema:
@@ -113,9 +201,11 @@ router.post(
   "/register",
   body("name").isString(),
   body("email").isEmail(),
-  body("lat").isNumeric(),
-  body("lon").isNumeric(),
-  body("password").isString().isLength({ min: 6 }), // Ensure password is at least 6 characters
+  body("place").optional().custom(placeOrCoordinates),
+  body("lat").if(body("place").not().exists()).isNumeric(),
+  body("lon").if(body("place").not().exists()).isNumeric(),
+  body("password").custom(passwordPolicy),
+  ...profileValidators,
   async (req: Request, res: Response) => {
     try {
       logger.info("Request received to create a new user", {
@@ -139,10 +229,11 @@ router.post(
         section: "createUserRoute",
       });
 
-      const { name, email, password, lat, lon } = req.body;
+      const { name, email, password, place } = req.body;
+      const { lat, lon } = place === undefined ? req.body : geocode(place);
 
       // Hash password
-      const hashedPassword = hashPassword(password);
+      const hashedPassword = await hashPassword(password);
       logger.info("Password hashed successfully", {
         section: "createUserRoute",
       });
@@ -153,7 +244,8 @@ router.post(
         email,
         hashedPassword,
         lat,
-        lon
+        lon,
+        pickProfileFields(req.body)
       );
 
       if (!createStatus.success) {
@@ -169,12 +261,35 @@ router.post(
         userId: createStatus.data.id,
       });
 
-      const token = generateClientJWT(email);
+      const mailStatus = await sendVerificationEmail(email, name);
+
+      if (!mailStatus.success) {
+        // The user can still ask for a new link through /verify/resend
+        logger.warn("Failed to send verification email", {
+          section: "createUserRoute",
+          email: email,
+        });
+      }
+
+      const sessionStatus = await createSession(createStatus.data.id);
+
+      if (!sessionStatus.success) {
+        logger.error("Failed to create session", {
+          section: "createUserRoute",
+          error: sessionStatus.message,
+        });
+        return res.status(500).json(sessionStatus);
+      }
+
+      const token = generateClientJWT(
+        createStatus.data.id,
+        sessionStatus.data.session.id
+      );
+      const refreshToken = sessionStatus.data.refreshToken;
 
       logger.info("JWT token generated successfully", {
         section: "createUserRoute",
         email: email,
-        token: token,
       });
 
       logger.info("User creation process completed successfully", {
@@ -183,9 +298,13 @@ router.post(
       });
 
       return res.status(200).json({
-        createStatus,
+        createStatus: {
+          ...createStatus,
+          data: serializeSelf(createStatus.data),
+        },
         token,
-        message: "User created successfully",
+        refreshToken,
+        message: "User created successfully, check your inbox to verify your email",
       });
     } catch (error) {
       logger.error("Unexpected error during user creation:", {
@@ -228,6 +347,15 @@ router.post(
  *                 token:
  *                   type: string
  *                   description: JWT token for user authentication
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Refresh token used to obtain a new access token
+ *                 mfaRequired:
+ *                   type: boolean
+ *                   description: Set when two-factor is on, token and refreshToken are then missing
+ *                 mfaToken:
+ *                   type: string
+ *                   description: Short-lived token to pass to /client/auth/2fa/verify with a code
  *                 message:
  *                   type: string
  *                   description: Confirmation message
@@ -265,6 +393,18 @@ router.post(
  *                 error:
  *                   type: string
  *                   description: Error message indicating authentication failure
+ *       429:
+ *         description: Too many failed attempts for this account or address, see the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 retryAfter:
+ *                   type: integer
+ *                   description: Seconds to wait before the next attempt
  *       500:
  *         description: Internal server error
  *         content:
@@ -305,6 +445,20 @@ router.post(
 
       const { email, password } = req.body;
 
+      const retryAfter = await getLoginRetryAfter(email, req.ip);
+
+      if (retryAfter > 0) {
+        logger.warn(`Login throttled for user with email: ${email}`, {
+          section: "loginRoute",
+          ip: req.ip,
+        });
+        res.setHeader("Retry-After", retryAfter.toString());
+        return res.status(429).json({
+          error: "Too many failed login attempts, try again later",
+          retryAfter,
+        });
+      }
+
       // Retrieve user
       const loginResult = await getUserByEmail(email);
 
@@ -312,31 +466,84 @@ router.post(
         logger.warn(`Login failed for user with email: ${email}`, {
           section: "loginRoute",
         });
+        await recordLoginFailure(email, req.ip);
         return res.status(401).json({ error: loginResult.message });
       }
 
       // Compare hashed password
       const user = loginResult.data;
-      const isPasswordMatch = comparePassword(password, user.hash);
+      const isPasswordMatch = await comparePassword(password, user.hash);
 
       if (!isPasswordMatch) {
         logger.warn(`Password mismatch for user with email: ${email}`, {
           section: "loginRoute",
         });
+
+        const failure = await recordLoginFailure(email, req.ip);
+
+        if (failure.accountLocked) {
+          logger.warn(`Account locked after failed logins: ${email}`, {
+            section: "loginRoute",
+            ip: req.ip,
+          });
+          await sendMail(
+            user.email,
+            "Your NearbyConnect account was temporarily locked",
+            `Hi ${user.name},\n\nWe locked your account for a while after too many failed login attempts. If this was not you, consider resetting your password.`
+          );
+        }
+
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
+      if (needsRehash(user.hash)) {
+        // The plain password is only known here, upgrade old hashes in place
+        const rehashStatus = await updateUser(
+          user.id,
+          undefined,
+          await hashPassword(password)
+        );
+        logger.info(`Password hash upgraded for user with email: ${email}`, {
+          section: "loginRoute",
+          success: rehashStatus.success,
+        });
+      }
+
+      if (user.totpEnabledAt) {
+        // Password was right, the session is only issued by /2fa/verify
+        logger.info(`Two-factor code required for user with email: ${email}`, {
+          section: "loginRoute",
+        });
+        return res.status(200).json({
+          mfaRequired: true,
+          mfaToken: generateMfaJWT(user.id),
+          message: "Two-factor code required",
+        });
+      }
+
+      await recordLoginSuccess(email);
+
+      const sessionStatus = await createSession(user.id);
+
+      if (!sessionStatus.success) {
+        logger.error(`Failed to create session for user with email: ${email}`, {
+          section: "loginRoute",
+        });
+        return res.status(500).json({ error: sessionStatus.message });
+      }
+
       // Generate JWT token
-      const token = generateClientJWT(email);
+      const token = generateClientJWT(user.id, sessionStatus.data.session.id);
+      const refreshToken = sessionStatus.data.refreshToken;
 
       logger.info(`JWT token generated successfully`, {
         section: "loginRoute",
         email: email,
-        token: token,
       });
 
       return res.status(200).json({
         token,
+        refreshToken,
         message: "Login successful",
       });
     } catch (error) {
@@ -353,7 +560,8 @@ router.post(
  * @swagger
  * /client/auth/update:
  *   put:
- *     summary: Update an existing user by email
+ *     summary: Update the authenticated user
+ *     description: The email can not be changed here, see /client/auth/email. Only the fields sent are changed, bio, birthdate, gender, pronouns, occupation and timezone can be cleared with null.
  *     tags:
  *       - ClientUsers
  *     requestBody:
@@ -366,12 +574,49 @@ router.post(
  *               name:
  *                 type: string
  *                 description: The name of the user
- *               email:
- *                 type: string
- *                 description: The email of the user
  *               password:
  *                 type: string
- *                 description: The password for the user account, must be at least 6 characters
+ *                 description: The password for the user account, must follow the password policy
+ *               lat:
+ *                 type: number
+ *                 format: float
+ *                 description: Latitude of the user's location
+ *               lon:
+ *                 type: number
+ *                 format: float
+ *                 description: Longitude of the user's location
+ *               place:
+ *                 type: string
+ *                 description: City name resolved from the bundled gazetteer, instead of lat and lon
+ *               bio:
+ *                 type: string
+ *                 description: Free text about the user, up to 500 characters
+ *               birthdate:
+ *                 type: string
+ *                 format: date
+ *                 description: Used to show the age, the user must be at least 18
+ *               gender:
+ *                 type: string
+ *                 enum: [WOMAN, MAN, NON_BINARY, OTHER]
+ *               pronouns:
+ *                 type: string
+ *                 description: Up to 30 characters
+ *               occupation:
+ *                 type: string
+ *                 description: Up to 100 characters
+ *               timezone:
+ *                 type: string
+ *                 description: IANA time zone such as Europe/Berlin, daily like limits reset at its midnight from the next reset on
+ *               prompts:
+ *                 type: array
+ *                 description: Up to 3 prompts, replaces the existing ones
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     question:
+ *                       type: string
+ *                     answer:
+ *                       type: string
  *     responses:
  *       200:
  *         description: User updated successfully
@@ -443,7 +688,9 @@ router.put(
   "/update",
   protectClient,
   body("name").optional().isString(),
-  body("password").optional().isString().isLength({ min: 6 }), // Ensure password is at least 6 characters
+  body("password").optional().custom(passwordPolicy),
+  body("place").optional().custom(placeOrCoordinates),
+  ...profileValidators,
   async (req: protectedRequest, res: Response) => {
     try {
       logger.info("Request received to update a user", {
@@ -466,22 +713,24 @@ router.put(
         section: "updateUserRoute",
       });
 
-      const { name, password, lat, lon } = req.body;
+      const { name, password, place } = req.body;
+      const { lat, lon } = place === undefined ? req.body : geocode(place);
 
       let hashedPassword: string | undefined = undefined;
       if (password) {
-        hashedPassword = hashPassword(password);
+        hashedPassword = await hashPassword(password);
         logger.info("Password hashed successfully", {
           section: "updateUserRoute",
         });
       }
 
       const updateStatus = await updateUser(
-        req.user.email,
+        req.user.id,
         name,
         hashedPassword,
         lat,
-        lon
+        lon,
+        pickProfileFields(req.body)
       );
 
       if (!updateStatus.success) {
@@ -497,8 +746,16 @@ router.put(
         userId: updateStatus.data.id,
       });
 
+      if (hashedPassword) {
+        // Sign out every other device once the password changes
+        await revokeUserSessions(updateStatus.data.id, req.sessionId);
+      }
+
       return res.status(200).json({
-        updateStatus,
+        updateStatus: {
+          ...updateStatus,
+          data: serializeSelf(updateStatus.data),
+        },
         message: "User updated successfully",
       });
     } catch (error) {
@@ -515,16 +772,11 @@ router.put(
  * @swagger
  * /client/auth/user:
  *   get:
- *     summary: Retrieve a user by email
+ *     summary: Retrieve the authenticated user
  *     tags:
  *       - ClientUsers
- *     parameters:
- *       - in: query
- *         name: email
- *         required: true
- *         schema:
- *           type: string
- *         description: The email of the user to retrieve
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: User retrieved successfully
@@ -557,33 +809,28 @@ router.put(
  *                       type: number
  *                       format: float
  *                       description: Longitude of the user's location
+ *                     locationLabel:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Nearest city to lat and lon, as "city, country"
+ *                     role:
+ *                       type: string
+ *                       description: USER or ADMIN
+ *                     emailVerified:
+ *                       type: boolean
+ *                       description: Whether the email address has been confirmed
+ *                     twoFactorEnabled:
+ *                       type: boolean
+ *                       description: Whether two-factor login is on
  *                     images:
  *                       type: array
  *                       items:
  *                         type: object
  *                       description: Array of user images
- *                     likes:
- *                       type: array
- *                       items:
- *                         type: object
- *                       description: Array of user likes
- *                     likedBy:
- *                       type: array
- *                       items:
- *                         type: object
- *                       description: Array of users who liked this user
- *                     dislikes:
- *                       type: array
- *                       items:
- *                         type: object
- *                       description: Array of user dislikes
- *                     dislikedBy:
- *                       type: array
- *                       items:
- *                         type: object
- *                       description: Array of users who disliked this user
- *       400:
- *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
  *         content:
  *           application/json:
  *             schema:
@@ -591,39 +838,72 @@ router.put(
  *               properties:
  *                 error:
  *                   type: string
- *                   description: Validation failure message
- *                 details:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       location:
- *                         type: string
- *                         description: The location of the error (query, body, etc.)
- *                       msg:
- *                         type: string
- *                         description: The error message
- *                       param:
- *                         type: string
- *                         description: The parameter that caused the error
- *                       value:
- *                         type: string
- *                         description: The value that failed validation
- *       404:
- *         description: User not found
+ *                   description: Error message indicating an internal server error
+ */
+
+router.get(
+  "/user",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to retrieve a user", {
+        section: "getUserRoute",
+        userId: req.user.id,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: serializeSelf(req.user),
+      });
+    } catch (error) {
+      logger.error("Unexpected error during user retrieval:", {
+        section: "getUserRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access token
+ *     description: Rotates the refresh token. The presented refresh token can not be used again.
+ *     tags:
+ *       - ClientUsers
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: The refresh token returned by login, register or a previous refresh
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   description: Indicates that the user was not found
+ *                 token:
+ *                   type: string
+ *                   description: New JWT token for user authentication
+ *                 refreshToken:
+ *                   type: string
+ *                   description: New refresh token
  *                 message:
  *                   type: string
- *                   description: User not found message
- *       500:
- *         description: Internal server error
+ *                   description: Confirmation message
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Refresh token is invalid, expired or revoked
  *         content:
  *           application/json:
  *             schema:
@@ -631,38 +911,760 @@ router.put(
  *               properties:
  *                 error:
  *                   type: string
- *                   description: Error message indicating an internal server error
+ *                   description: Error message
+ *       500:
+ *         description: Internal server error
  */
+router.post(
+  "/refresh",
+  body("refreshToken").isString(),
+  async (req: Request, res: Response) => {
+    try {
+      logger.info("Request received to refresh a session", {
+        section: "refreshRoute",
+      });
 
-router.get(
-  "/user",
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const rotateStatus = await rotateSession(req.body.refreshToken);
+
+      if (!rotateStatus.success) {
+        logger.warn("Refresh token rejected", {
+          section: "refreshRoute",
+        });
+        return res.status(401).json({ error: rotateStatus.message });
+      }
+
+      const { session, refreshToken } = rotateStatus.data;
+      const token = generateClientJWT(session.userId, session.id);
+
+      logger.info("Session refreshed successfully", {
+        section: "refreshRoute",
+        sessionId: session.id,
+      });
+
+      return res.status(200).json({
+        token,
+        refreshToken,
+        message: "Session refreshed successfully",
+      });
+    } catch (error) {
+      logger.error("Unexpected error during session refresh:", {
+        section: "refreshRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/logout:
+ *   post:
+ *     summary: Log out the current session
+ *     description: Revokes the session of the access token, its refresh token stops working too.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/logout",
   protectClient,
   async (req: protectedRequest, res: Response) => {
     try {
-      logger.info("Request received to retrieve a user", {
-        section: "getUserByEmailRoute",
-      });
-      const email = req.user.email;
-      const retrieveStatus = await getUserByEmail(email as string);
-      console.log(retrieveStatus);
-      if (!retrieveStatus.success) {
-        logger.warn("User not found", {
-          section: "getUserByEmailRoute",
-          email: email,
-        });
-        return res.status(404).json(retrieveStatus);
+      logger.info("Request received to log out", {
+        section: "logoutRoute",
+        sessionId: req.sessionId,
+      });
+
+      const revokeStatus = await revokeSession(req.sessionId);
+
+      if (!revokeStatus.success) {
+        return res.status(500).json(revokeStatus);
       }
 
-      logger.info("User retrieved successfully", {
-        section: "getUserByEmailRoute",
-        email: email,
-        userId: retrieveStatus.data.id,
+      return res.status(200).json({
+        success: true,
+        message: "Logged out successfully",
       });
-
-      return res.status(200).json(retrieveStatus);
     } catch (error) {
-      logger.error("Unexpected error during user retrieval:", {
-        section: "getUserByEmailRoute",
+      logger.error("Unexpected error during logout:", {
+        section: "logoutRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/logout-all:
+ *   post:
+ *     summary: Log out from all devices
+ *     description: Revokes every session of the authenticated user, including the current one.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/logout-all",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to log out from all devices", {
+        section: "logoutAllRoute",
+        userId: req.user.id,
+      });
+
+      const revokeStatus = await revokeUserSessions(req.user.id);
+
+      if (!revokeStatus.success) {
+        return res.status(500).json(revokeStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Logged out from all devices successfully",
+      });
+    } catch (error) {
+      logger.error("Unexpected error during logout from all devices:", {
+        section: "logoutAllRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/verify:
+ *   get:
+ *     summary: Verify an email address
+ *     description: Consumes the single-use token sent by mail after registration.
+ *     tags:
+ *       - ClientUsers
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The verification token from the mail
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Token is missing, invalid, expired or already used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/verify",
+  query("token").isString(),
+  async (req: Request, res: Response) => {
+    try {
+      logger.info("Request received to verify an email", {
+        section: "verifyEmailRoute",
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const payload = validateVerificationJWT(req.query.token as string);
+
+      if (!payload) {
+        return res.status(400).json({
+          success: false,
+          message: "Verification link is invalid or has expired",
+        });
+      }
+
+      const verifyStatus = await markEmailVerified(
+        payload.email,
+        new Date(payload.sentAt)
+      );
+
+      if (!verifyStatus.success) {
+        return res.status(verifyStatus.error ? 500 : 400).json(verifyStatus);
+      }
+
+      return res.status(200).json(verifyStatus);
+    } catch (error) {
+      logger.error("Unexpected error during email verification:", {
+        section: "verifyEmailRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/verify/resend:
+ *   post:
+ *     summary: Send a new verification mail
+ *     description: Invalidates previously sent links. Can only be called once per cooldown period.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification mail sent
+ *       400:
+ *         description: Email is already verified
+ *       401:
+ *         description: Unauthorized
+ *       429:
+ *         description: Cooldown has not passed yet, see the Retry-After header
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/verify/resend",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to resend a verification mail", {
+        section: "resendVerificationRoute",
+        userId: req.user.id,
+      });
+
+      if (req.user.emailVerifiedAt) {
+        return res.status(400).json({
+          success: false,
+          message: "Email is already verified",
+        });
+      }
+
+      const retryAfter = verificationCooldownRemaining(
+        req.user.verificationSentAt
+      );
+
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", retryAfter.toString());
+        return res.status(429).json({
+          success: false,
+          message: `Please wait ${retryAfter} seconds before requesting a new mail`,
+        });
+      }
+
+      const mailStatus = await sendVerificationEmail(
+        req.user.email,
+        req.user.name
+      );
+
+      if (!mailStatus.success) {
+        return res.status(500).json(mailStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Verification mail sent",
+      });
+    } catch (error) {
+      logger.error("Unexpected error while resending verification mail:", {
+        section: "resendVerificationRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/forgot:
+ *   post:
+ *     summary: Request a password reset mail
+ *     description: Always answers the same way, whether or not an account exists for the email.
+ *     tags:
+ *       - ClientUsers
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 description: The email of the account
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Validation failed
+ */
+router.post(
+  "/forgot",
+  body("email").isEmail(),
+  async (req: Request, res: Response) => {
+    logger.info("Request received to reset a password", {
+      section: "forgotPasswordRoute",
+    });
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: errors.array() });
+    }
+
+    // Not awaited, so the response time does not tell whether the email exists
+    requestPasswordReset(req.body.email).catch((error) => {
+      logger.error("Unexpected error during password reset request:", {
+        section: "forgotPasswordRoute",
+        error: error.message,
+      });
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "If an account exists for this email, a reset link has been sent",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/reset:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     description: The token can be used once. All sessions of the user are signed out. The reset mail links to `<FRONTEND_URL>/reset-password?token=...`, that page calls this endpoint.
+ *     tags:
+ *       - ClientUsers
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: The token from the reset mail
+ *               password:
+ *                 type: string
+ *                 description: The new password, must follow the password policy
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Validation failed, or the token is invalid, expired or already used
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/reset",
+  body("token").isString(),
+  body("password").custom(passwordPolicy),
+  async (req: Request, res: Response) => {
+    try {
+      logger.info("Request received to set a new password", {
+        section: "resetPasswordRoute",
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const { token, password } = req.body;
+
+      const resetStatus = await consumePasswordReset(
+        token,
+        await hashPassword(password)
+      );
+
+      if (!resetStatus.success) {
+        return res.status(resetStatus.error ? 500 : 400).json({
+          success: false,
+          message: resetStatus.message,
+        });
+      }
+
+      logger.info("Password reset successfully", {
+        section: "resetPasswordRoute",
+      });
+
+      return res.status(200).json(resetStatus);
+    } catch (error) {
+      logger.error("Unexpected error during password reset:", {
+        section: "resetPasswordRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/user:
+ *   delete:
+ *     summary: Delete the authenticated user's account
+ *     description: Removes the user, their images and uploaded files, their sessions and every like and dislike given or received.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.delete(
+  "/user",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to delete a user", {
+        section: "deleteUserRoute",
+        userId: req.user.id,
+      });
+
+      const deleteStatus = await deleteUserAccount(req.user.id);
+
+      if (!deleteStatus.success) {
+        return res.status(500).json(deleteStatus);
+      }
+
+      const failed = await removeImageFiles(deleteStatus.data);
+
+      if (failed.length > 0) {
+        logger.warn("Some image files could not be removed", {
+          section: "deleteUserRoute",
+          files: failed,
+        });
+      }
+
+      logger.info("User deleted successfully", {
+        section: "deleteUserRoute",
+        userId: req.user.id,
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Account deleted successfully",
+      });
+    } catch (error) {
+      logger.error("Unexpected error during user deletion:", {
+        section: "deleteUserRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/export:
+ *   get:
+ *     summary: Download a copy of the authenticated user's data
+ *     description: Returns a zip archive with the profile, likes and dislikes given and received, and uploaded photos.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Zip archive of the user's data
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/export",
+  protectClient,
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to export a user", {
+        section: "exportUserRoute",
+        userId: req.user.id,
+      });
+
+      const exportStatus = await getUserExport(req.user.id);
+
+      if (!exportStatus.success) {
+        return res.status(500).json(exportStatus);
+      }
+
+      res.attachment(`nearbyconnect-export-${req.user.id}.zip`);
+      res.setHeader("Content-Type", "application/zip");
+      await writeUserExport(res, exportStatus.data);
+
+      logger.info("User exported successfully", {
+        section: "exportUserRoute",
+        userId: req.user.id,
+      });
+    } catch (error) {
+      logger.error("Unexpected error during user export:", {
+        section: "exportUserRoute",
+        error: error.message,
+      });
+      if (res.headersSent) {
+        return res.end();
+      }
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/email:
+ *   post:
+ *     summary: Ask to change the account email
+ *     description: Sends a confirmation link to the new address. The email only changes once the link is opened.
+ *     tags:
+ *       - ClientUsers
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 description: The address to switch to
+ *               password:
+ *                 type: string
+ *                 description: The current password
+ *     responses:
+ *       200:
+ *         description: Confirmation mail sent to the new address
+ *       400:
+ *         description: Validation failed or the address is the current one
+ *       401:
+ *         description: Unauthorized or wrong password
+ *       409:
+ *         description: The address is already in use
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/email",
+  protectClient,
+  body("newEmail").isEmail(),
+  body("password").isString(),
+  async (req: protectedRequest, res: Response) => {
+    try {
+      logger.info("Request received to change an email", {
+        section: "changeEmailRoute",
+        userId: req.user.id,
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const { newEmail, password } = req.body;
+
+      if (!(await comparePassword(password, req.user.hash))) {
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      if (newEmail === req.user.email) {
+        return res.status(400).json({
+          success: false,
+          message: "This is already your email",
+        });
+      }
+
+      const existingStatus = await getUserByEmail(newEmail);
+
+      if (existingStatus.success) {
+        return res.status(409).json({
+          success: false,
+          message: "Email is already in use",
+        });
+      }
+
+      const mailStatus = await sendEmailChangeConfirmation(
+        req.user.id,
+        req.user.name,
+        req.user.email,
+        newEmail
+      );
+
+      if (!mailStatus.success) {
+        return res.status(500).json(mailStatus);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Check the new address to confirm the change",
+      });
+    } catch (error) {
+      logger.error("Unexpected error during email change request:", {
+        section: "changeEmailRoute",
+        error: error.message,
+      });
+      return res.status(500).json({ error: "Unexpected error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /client/auth/email/confirm:
+ *   get:
+ *     summary: Confirm an email change
+ *     description: Switches the account to the new address and notifies the old one. Sessions and likes are kept.
+ *     tags:
+ *       - ClientUsers
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The token from the confirmation mail
+ *     responses:
+ *       200:
+ *         description: Email changed successfully
+ *       400:
+ *         description: Token is missing, invalid, expired or already used
+ *       409:
+ *         description: The address has been taken in the meantime
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/email/confirm",
+  query("token").isString(),
+  async (req: Request, res: Response) => {
+    try {
+      logger.info("Request received to confirm an email change", {
+        section: "confirmEmailChangeRoute",
+      });
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res
+          .status(400)
+          .json({ error: "Validation failed", details: errors.array() });
+      }
+
+      const payload = validateEmailChangeJWT(req.query.token as string);
+
+      if (!payload) {
+        return res.status(400).json({
+          success: false,
+          message: "Email change link is invalid or has expired",
+        });
+      }
+
+      const changeStatus = await changeUserEmail(
+        payload.sub,
+        payload.currentEmail,
+        payload.newEmail
+      );
+
+      if (!changeStatus.success) {
+        const status = changeStatus.error
+          ? 500
+          : changeStatus.conflict
+          ? 409
+          : 400;
+        return res.status(status).json({
+          success: false,
+          message: changeStatus.message,
+        });
+      }
+
+      const getStatus = await getUserById(payload.sub);
+
+      await sendEmailChangedNotice(
+        getStatus.success ? getStatus.data.name : "",
+        payload.currentEmail,
+        payload.newEmail
+      );
+
+      logger.info("Email changed successfully", {
+        section: "confirmEmailChangeRoute",
+        userId: payload.sub,
+      });
+
+      return res.status(200).json(changeStatus);
+    } catch (error) {
+      logger.error("Unexpected error during email change confirmation:", {
+        section: "confirmEmailChangeRoute",
         error: error.message,
       });
       return res.status(500).json({ error: "Unexpected error" });
@@ -2,8 +2,12 @@ import { Router } from "express"
 const router = Router()
 
 import client from "../routes/client/userAuth"
+import twoFactor from "./client/clientTwoFactor"
 import interact from "../routes/client/clientInteract"
 import image from "./client/clientImage"
+import preferences from "./client/clientPreferences"
+import tags from "./client/clientTags"
+import adminUsers from "./admin/adminUsers"
 
 import staticRouter from "./pages"
 
@@ -11,9 +15,13 @@ import files from "./files/index"
 import { stat } from "fs"
 
 
+router.use("/client/auth/2fa", twoFactor)
 router.use("/client/auth", client)
 router.use("/client/interact", interact);
 router.use("/client/image", image);
+router.use("/client/preferences", preferences);
+router.use("/client/tags", tags);
+router.use("/admin/users", adminUsers);
 router.use("", staticRouter)
 
 